@@ -1,63 +1,99 @@
-import React, { useState, useCallback } from 'react';
-import { Layout, Type, Image as ImageIcon, Wand2, Download, Upload, Move, CheckCircle2, Sparkles, Loader2, ChevronDown, FileType, Share2, MousePointer2, Sticker, Crop, MessageSquarePlus, Palette, Link, Archive, Undo, Redo, Trash2 } from 'lucide-react';
-import html2canvas from 'html2canvas';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Layout, Type, Image as ImageIcon, Wand2, Download, Upload, Move, CheckCircle2, Sparkles, Loader2, ChevronDown, FileType, Share2, MousePointer2, Sticker, Crop, MessageSquarePlus, Palette, Link, Archive, Undo, Redo, Trash2, Save, FolderOpen, Library, RotateCw, FlipHorizontal2, FlipVertical2, Group, Ungroup, AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal, AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Keyboard, PenTool, Printer, Layers, LayoutGrid, FileSpreadsheet, Images, Square, RectangleHorizontal, Circle, Minus, Hexagon, Star, SlidersHorizontal, PaintBucket, Settings2 } from 'lucide-react';
 import JSZip from 'jszip';
 import { CanvasEditor } from './components/CanvasEditor';
-import { generateDesign, generateSticker, generateTypographyImage } from './services/geminiService';
-import { fileToBase64, fileToDataUrl, removeBackground, dataURLToBlob } from './utils/helpers';
-import { CanvasDimensions, DesignElement, AIAnalysisResult, Position } from './types';
-
-// Helper to convert named positions to coordinates
-const getCoordinatesFromPosition = (
-  pos: string, 
-  canvasW: number, 
-  canvasH: number, 
-  itemW: number, 
-  itemH: number
-): Position => {
-  const padding = 50;
-  let x = padding;
-  let y = padding;
-
-  if (pos.includes('right')) x = canvasW - itemW - padding;
-  if (pos.includes('center') && !pos.startsWith('center')) x = (canvasW - itemW) / 2; // horizontal center
-  if (pos.startsWith('center')) {
-      y = (canvasH - itemH) / 2;
-      if(pos.includes('left')) x = padding;
-      if(pos.includes('right')) x = canvasW - itemW - padding;
-      if(pos === 'center') x = (canvasW - itemW) / 2;
-  }
-  
-  if (pos.includes('bottom')) y = canvasH - itemH - padding;
-  if (pos.includes('top')) y = padding;
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { LayersPanel } from './components/LayersPanel';
+import { ShortcutHelp } from './components/ShortcutHelp';
+import { AISettingsDialog } from './components/AISettingsDialog';
+import { AdjustmentsPanel } from './components/AdjustmentsPanel';
+import { BackgroundPanel } from './components/BackgroundPanel';
+import { CutoutPanel } from './components/CutoutPanel';
+import { CropPanel } from './components/CropPanel';
+import { TypographyPanel } from './components/TypographyPanel';
+import { CampaignExport } from './components/CampaignExport';
+import { DataMerge } from './components/DataMerge';
+import { BatchBackgrounds } from './components/BatchBackgrounds';
+import { AISettings, createAIProvider, getProviderInfo, loadAISettings, saveAISettings } from './services/aiProvider';
+import { listProjects, loadProject, saveProject, renameProject, duplicateProject, deleteProject } from './services/projectStore';
+import { fileToDataUrl, dataURLToBlob, dataUrlToBase64, downloadBlob, getElementLabel, toFileSlug } from './utils/helpers';
+import { alignRects, distributeRects, measureElementRects, AlignMode, DistributeAxis } from './utils/alignment';
+import { useHistory, HistoryOptions } from './utils/history';
+import { useShortcuts, NUDGE_STEP, NUDGE_STEP_LARGE } from './utils/shortcuts';
+import { renderDocument, canvasToBlob, layoutText, RenderOptions } from './utils/renderer';
+import { exportSvg } from './utils/svgExport';
+import { exportPdf } from './utils/pdfExport';
+import { exportPsd } from './utils/psdExport';
+import { getTextVariables } from './utils/template';
+import { FONT_FAMILIES, MIN_TEXT_BOX_WIDTH } from './utils/typography';
+import { FONT_FILE_ACCEPT, readFontFile, syncCustomFonts } from './utils/fonts';
+import { hasAdjustments } from './utils/adjustments';
+import { removeBackground, BrushMode, CutoutOptions, DEFAULT_BRUSH_SIZE } from './utils/cutout';
+import { DEFAULT_BACKGROUND_FRAME, scaleBackgroundFrame } from './utils/background';
+import { createShapeElement, DEFAULT_SHAPE_COLOR, MIN_SHAPE_SIZE, SHAPE_LABELS, SHAPE_PRESETS } from './utils/shapes';
+import { CANVAS_PRESETS, findPreset, getCoordinatesFromPosition, relayoutElements } from './utils/layout';
+import { encodeImage, DEFAULT_IMAGE_EXPORT, IMAGE_FORMATS, ImageExportSettings, ImageFormat } from './utils/imageExport';
+import { DEFAULT_PRINT_SETTINGS, UNIT_LABELS, fromPixels, roundForUnit, toPixels } from './utils/units';
+import { parseProject, serializeProject, PROJECT_FILE_EXTENSION } from './utils/project';
+import { BackgroundFill, BackgroundFrame, CanvasDimensions, CustomFont, DesignElement, ImageAdjustments, AIAnalysisResult, PhysicalUnit, Position, PrintSettings, ProjectDocument, ProjectSummary, Rect, ShapeProps } from './types';
+
+const AUTOSAVE_DELAY_MS = 1500;
+const PASTE_OFFSET = 20;
+const THUMBNAIL_SIZE = 320;
+
+// Toolbar icons for the insertable shapes in SHAPE_PRESETS
+const SHAPE_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  rectangle: Square,
+  rounded: RectangleHorizontal,
+  ellipse: Circle,
+  line: Minus,
+  polygon: Hexagon,
+  star: Star,
+};
 
-  return { x, y };
+// Collects the elements an export had to leave out and tells the user once it is done
+const createSkipReport = () => {
+  const labels = new Set<string>();
+  return {
+    onElementError: (el: DesignElement) => { labels.add(getElementLabel(el)); },
+    notify: () => {
+      if (labels.size === 0) return;
+      alert(`Some layers were left out of the export because their images could not be loaded (usually their host doesn't allow it): ${Array.from(labels).join(', ')}.`);
+    },
+  };
 };
 
 const App: React.FC = () => {
   // --- State ---
   const [dimensions, setDimensions] = useState<CanvasDimensions>({ width: 800, height: 800 });
+  const [printSettings, setPrintSettings] = useState<PrintSettings>(DEFAULT_PRINT_SETTINGS);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+  const [relayoutOnResize, setRelayoutOnResize] = useState(true);
   
   // Images
   const [bgImage, setBgImage] = useState<string | null>(null);
-  const [bgFile, setBgFile] = useState<File | null>(null);
+  const [bgAdjustments, setBgAdjustments] = useState<ImageAdjustments | null>(null);
+  const [isBgAdjustOpen, setIsBgAdjustOpen] = useState(false);
+  const [bgFrame, setBgFrame] = useState<BackgroundFrame>(DEFAULT_BACKGROUND_FRAME);
+  const [bgFill, setBgFill] = useState<BackgroundFill | null>(null);
+  const [isBgFrameOpen, setIsBgFrameOpen] = useState(false);
+  const [isReframing, setIsReframing] = useState(false);
   const [logoImage, setLogoImage] = useState<string | null>(null);
   const [styleRefImage, setStyleRefImage] = useState<string | null>(null); // For style reference
-  const [styleRefFile, setStyleRefFile] = useState<File | null>(null);
   const [imageUrlInput, setImageUrlInput] = useState(""); // For URL inputs
 
   // Inputs
+  const [projectName, setProjectName] = useState("Untitled Design");
   const [designPrompt, setDesignPrompt] = useState<string>("");
   const [objectPrompt, setObjectPrompt] = useState("");
 
   // Canvas State
   const [elements, setElements] = useState<DesignElement[]>([]);
-  const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Erase/restore brush on the selected image; switched off whenever the selection changes
+  const [brushMode, setBrushMode] = useState<BrushMode | null>(null);
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
   
-  // History State
-  const [history, setHistory] = useState<DesignElement[][]>([]);
-  const [redoStack, setRedoStack] = useState<DesignElement[][]>([]);
-
   // Loading States
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isGeneratingObject, setIsGeneratingObject] = useState(false);
@@ -68,46 +104,239 @@ const App: React.FC = () => {
   
   // Download Options
   const [downloadScale, setDownloadScale] = useState(1);
-  const [isTransparentMode, setIsTransparentMode] = useState(false);
+  const [imageExport, setImageExport] = useState<ImageExportSettings>(DEFAULT_IMAGE_EXPORT);
+  // Element boxes measured on the main canvas when the campaign dialog opens; null while closed
+  const [campaignRects, setCampaignRects] = useState<Record<string, Rect> | null>(null);
+  const [isDataMergeOpen, setIsDataMergeOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [svgIncludeBackground, setSvgIncludeBackground] = useState(true);
+  const [svgEmbedFonts, setSvgEmbedFonts] = useState(false);
+
+  // Project Library (IndexedDB)
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  // Library id for a project that has not been autosaved yet, minted once so overlapping saves share it
+  const unsavedProjectIdRef = useRef<string | null>(null);
+  const [savedProjects, setSavedProjects] = useState<ProjectSummary[]>([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [hasRestored, setHasRestored] = useState(false);
+
+  // AI Provider (a browser setting, not part of the project)
+  const [aiSettings, setAiSettings] = useState<AISettings>(loadAISettings);
+  const [isAISettingsOpen, setIsAISettingsOpen] = useState(false);
+  const aiProvider = useMemo(() => createAIProvider(aiSettings), [aiSettings]);
+
+  // Keyboard
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+  const clipboardRef = useRef<DesignElement[]>([]);
+
+  // Everything that belongs to the document (and therefore to undo/redo and saving)
+  const editorState: ProjectDocument = {
+    dimensions,
+    elements,
+    background: bgImage,
+    backgroundAdjustments: bgAdjustments,
+    backgroundFrame: bgFrame,
+    backgroundFill: bgFill,
+    logo: logoImage,
+    styleReference: styleRefImage,
+    analysis: analysisResult,
+    print: printSettings,
+    fonts: customFonts,
+  };
+
+  const applyEditorState = (doc: ProjectDocument) => {
+    setDimensions(doc.dimensions);
+    setElements(doc.elements);
+    setBgImage(doc.background);
+    setBgAdjustments(doc.backgroundAdjustments);
+    setBgFrame(doc.backgroundFrame);
+    setBgFill(doc.backgroundFill);
+    setLogoImage(doc.logo);
+    setStyleRefImage(doc.styleReference);
+    setAnalysisResult(doc.analysis);
+    setPrintSettings(doc.print);
+    setCustomFonts(doc.fonts);
+  };
+
+  const history = useHistory(editorState, applyEditorState);
+
+  const selectedElement = selectedIds.length === 1 ? elements.find(el => el.id === selectedIds[0]) : undefined;
+  const selectedElements = elements.filter(el => selectedIds.includes(el.id));
+  const visibleElements = elements.filter(el => !el.hidden);
+  // A color or gradient fill is a complete background on its own
+  const hasBackground = Boolean(bgImage || bgFill);
 
   // --- Handlers ---
 
-  const saveHistory = useCallback(() => {
-    setHistory(prev => [...prev, elements]);
-    setRedoStack([]); // Clear redo stack on new action
+  const { undo: handleUndo, redo: handleRedo, record: recordHistory } = history;
+
+  const handleDeleteSelected = useCallback(() => {
+    if (selectedIds.length === 0) return;
+    recordHistory('Delete');
+    setElements(prev => prev.filter(el => !selectedIds.includes(el.id)));
+    setSelectedIds([]);
+  }, [selectedIds, recordHistory]);
+
+  // --- Selection ---
+
+  // Clicking any member of a persistent group selects the whole group
+  const expandGroups = useCallback((ids: string[]) => {
+    const groupIds = new Set(elements.filter(el => ids.includes(el.id) && el.groupId).map(el => el.groupId));
+    return elements
+      .filter(el => ids.includes(el.id) || (el.groupId && groupIds.has(el.groupId)))
+      .map(el => el.id);
   }, [elements]);
 
-  const handleUndo = useCallback(() => {
-    if (history.length === 0) return;
-    
-    const previousState = history[history.length - 1];
-    setRedoStack(prev => [elements, ...prev]);
-    setElements(previousState);
-    setHistory(prev => prev.slice(0, -1));
-  }, [history, elements]);
+  const handleSelect = useCallback((id: string | null, additive: boolean = false) => {
+    if (!id) {
+      setSelectedIds([]);
+      return;
+    }
+    const ids = expandGroups([id]);
+    setSelectedIds(prev => {
+      if (additive) {
+        return prev.includes(id) ? prev.filter(existing => !ids.includes(existing)) : [...prev, ...ids.filter(i => !prev.includes(i))];
+      }
+      // Keep a multi-selection intact so it can be dragged as a unit
+      return prev.includes(id) ? prev : ids;
+    });
+  }, [expandGroups]);
+
+  const handleSelectMany = useCallback((ids: string[], additive: boolean = false) => {
+    const expanded = expandGroups(ids);
+    setSelectedIds(prev => additive ? [...prev, ...expanded.filter(id => !prev.includes(id))] : expanded);
+  }, [expandGroups]);
+
+  const handleGroupSelected = () => {
+    if (selectedIds.length < 2) return;
+    recordHistory('Group');
+    const groupId = `group-${Date.now()}`;
+    setElements(prev => prev.map(el => selectedIds.includes(el.id) ? { ...el, groupId } : el));
+  };
 
-  const handleRedo = useCallback(() => {
-    if (redoStack.length === 0) return;
+  const handleUngroupSelected = () => {
+    if (!selectedElements.some(el => el.groupId)) return;
+    recordHistory('Ungroup');
+    setElements(prev => prev.map(el => selectedIds.includes(el.id) ? { ...el, groupId: undefined } : el));
+  };
 
-    const nextState = redoStack[0];
-    setHistory(prev => [...prev, elements]);
-    setElements(nextState);
-    setRedoStack(prev => prev.slice(1));
-  }, [redoStack, elements]);
+  // Shifts selected elements by measured offsets; locked elements stay put
+  const applyOffsets = (offsets: Record<string, Position>, label: string, options?: HistoryOptions) => {
+    const updates: Record<string, Partial<DesignElement>> = {};
+    elements.forEach(el => {
+      const offset = offsets[el.id];
+      if (offset && !el.locked && (offset.x !== 0 || offset.y !== 0)) {
+        updates[el.id] = { x: el.x + offset.x, y: el.y + offset.y };
+      }
+    });
+    if (Object.keys(updates).length > 0) handleUpdateElements(updates, label, options);
+  };
 
-  const handleDeleteSelected = useCallback(() => {
-    if (!selectedElementId) return;
-    saveHistory();
-    setElements(prev => prev.filter(el => el.id !== selectedElementId));
-    setSelectedElementId(null);
-  }, [selectedElementId, saveHistory]);
+  const measureSelection = () => {
+    const container = document.getElementById('canvas-export-target');
+    return container ? measureElementRects(container, selectedIds) : {};
+  };
+
+  const handleAlign = (mode: AlignMode) => applyOffsets(alignRects(measureSelection(), mode), 'Align');
+
+  const handleDistribute = (axis: DistributeAxis) => applyOffsets(distributeRects(measureSelection(), axis), 'Distribute');
+
+  // --- Clipboard & Keyboard ---
+
+  // Inserts copies with fresh ids (and fresh group ids) offset from the originals
+  const pasteElements = (source: DesignElement[]) => {
+    if (source.length === 0) return;
+    recordHistory('Paste');
+
+    const stamp = Date.now();
+    const groupMap: Record<string, string> = {};
+    const copies = source.map((el, i) => {
+      const groupId = el.groupId ? (groupMap[el.groupId] ??= `group-${stamp}-${i}`) : undefined;
+      return { ...el, id: `${el.type}-${stamp}-${i}`, x: el.x + PASTE_OFFSET, y: el.y + PASTE_OFFSET, groupId, locked: false };
+    });
+
+    setElements(prev => [...prev, ...copies]);
+    setSelectedIds(copies.map(el => el.id));
+    clipboardRef.current = copies; // Repeated pastes cascade instead of stacking
+  };
+
+  const handleNudge = (e: KeyboardEvent, step: number) => {
+    const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+    const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0;
+    // Holding an arrow key produces one undo step
+    applyOffsets(Object.fromEntries(selectedIds.map(id => [id, { x: dx, y: dy }])), 'Nudge', { coalesceKey: `nudge-${selectedIds.join(',')}` });
+  };
+
+  const handleCycleSelection = (direction: 1 | -1) => {
+    const visible = elements.filter(el => !el.hidden);
+    if (visible.length === 0) return;
+    const current = visible.findIndex(el => el.id === selectedIds[selectedIds.length - 1]);
+    const next = current === -1
+      ? (direction === 1 ? 0 : visible.length - 1)
+      : (current + direction + visible.length) % visible.length;
+    setSelectedIds([visible[next].id]);
+  };
+
+  useShortcuts({
+    undo: handleUndo,
+    redo: handleRedo,
+    // Keys that only mean something for a selection stay with the browser without one
+    delete: () => {
+      if (selectedIds.length === 0) return false;
+      handleDeleteSelected();
+    },
+    nudge: (e) => {
+      if (selectedIds.length === 0) return false;
+      handleNudge(e, NUDGE_STEP);
+    },
+    nudgeLarge: (e) => {
+      if (selectedIds.length === 0) return false;
+      handleNudge(e, NUDGE_STEP_LARGE);
+    },
+    copy: () => {
+      if (selectedElements.length === 0) return false;
+      clipboardRef.current = selectedElements;
+    },
+    paste: () => {
+      if (clipboardRef.current.length === 0) return false;
+      pasteElements(clipboardRef.current);
+    },
+    duplicate: () => {
+      if (selectedElements.length === 0) return false;
+      pasteElements(selectedElements);
+    },
+    group: () => {
+      if (selectedIds.length < 2) return false;
+      handleGroupSelected();
+    },
+    ungroup: () => {
+      if (!selectedElements.some(el => el.groupId)) return false;
+      handleUngroupSelected();
+    },
+    deselect: () => {
+      if (isShortcutHelpOpen) setIsShortcutHelpOpen(false);
+      else if (selectedIds.length > 0) setSelectedIds([]);
+      else return false;
+    },
+    // Tab only cycles elements once one is selected, so it still moves focus through the UI
+    cycleNext: () => {
+      if (selectedIds.length === 0) return false;
+      handleCycleSelection(1);
+    },
+    cyclePrevious: () => {
+      if (selectedIds.length === 0) return false;
+      handleCycleSelection(-1);
+    },
+    help: () => setIsShortcutHelpOpen(open => !open),
+  }, !isLibraryOpen && !campaignRects && !isDataMergeOpen && !isBatchOpen && !isAISettingsOpen);
 
   const handleBgUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) {
       const file = e.target.files[0];
-      setBgFile(file);
       const url = await fileToDataUrl(file);
+      recordHistory('Change Background');
       setBgImage(url);
+      setBgFrame(DEFAULT_BACKGROUND_FRAME);
     }
   };
 
@@ -116,7 +345,7 @@ const App: React.FC = () => {
       const file = e.target.files[0];
       const url = await fileToDataUrl(file);
       
-      saveHistory(); // Save state before adding logo
+      recordHistory('Add Logo'); // Save state before adding logo
       setLogoImage(url); // Store for potential AI use
 
       // Add logo to canvas immediately
@@ -124,7 +353,7 @@ const App: React.FC = () => {
         const existingLogo = prev.find(el => el.type === 'logo');
         if (existingLogo) {
           // Update content of existing logo
-          setSelectedElementId(existingLogo.id);
+          setSelectedIds([existingLogo.id]);
           return prev.map(el => el.type === 'logo' ? { ...el, content: url } : el);
         } else {
           // Add new logo
@@ -136,7 +365,7 @@ const App: React.FC = () => {
             y: 30,
             width: 150,
           };
-          setSelectedElementId(newLogo.id);
+          setSelectedIds([newLogo.id]);
           return [...prev, newLogo];
         }
       });
@@ -146,15 +375,62 @@ const App: React.FC = () => {
   const handleStyleRefUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) {
       const file = e.target.files[0];
-      setStyleRefFile(file);
       const url = await fileToDataUrl(file);
+      recordHistory('Change Style Reference');
       setStyleRefImage(url);
     }
   };
 
+  const handleRemoveBgImage = () => {
+    recordHistory('Remove Background');
+    setBgImage(null);
+    setBgAdjustments(null);
+    setBgFrame(DEFAULT_BACKGROUND_FRAME);
+    setIsReframing(false);
+  };
+
+  const handleBgFrameChange = useCallback((frame: BackgroundFrame, coalesceKey?: string) => {
+    recordHistory('Reframe Background', coalesceKey ? { coalesceKey: `reframe-background-${coalesceKey}` } : undefined);
+    setBgFrame(frame);
+  }, [recordHistory]);
+
+  const handleBgFillChange = (fill: BackgroundFill | null, coalesceKey?: string) => {
+    recordHistory('Background Fill', coalesceKey ? { coalesceKey: `background-fill-${coalesceKey}` } : undefined);
+    setBgFill(fill);
+  };
+
+  const handleBgAdjustmentsChange = (adjustments: ImageAdjustments | null, coalesceKey?: string) => {
+    recordHistory('Adjust Background', coalesceKey ? { coalesceKey: `adjust-background-${coalesceKey}` } : undefined);
+    setBgAdjustments(adjustments);
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    const results = await Promise.allSettled(files.map(readFontFile));
+    const fonts = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const errors = results.flatMap(result => result.status === 'rejected' ? [(result.reason as Error).message] : []);
+    if (fonts.length > 0) {
+      recordHistory('Add Font');
+      setCustomFonts(prev => [...prev, ...fonts]);
+    }
+    if (errors.length > 0) {
+      console.error("Font upload failed:", errors);
+      alert(errors.join('\n'));
+    }
+  };
+
+  // Text using the font falls back to the next family in its font stack
+  const handleRemoveFont = (id: string) => {
+    recordHistory('Remove Font');
+    setCustomFonts(prev => prev.filter(font => font.id !== id));
+  };
+
   const handleInsertUrlImage = () => {
     if (!imageUrlInput) return;
-    saveHistory();
+    recordHistory('Insert Image');
 
     // Basic check, though logic allows most strings as src
     const newElement: DesignElement = {
@@ -167,32 +443,101 @@ const App: React.FC = () => {
     };
     
     setElements(prev => [...prev, newElement]);
-    setSelectedElementId(newElement.id);
+    setSelectedIds([newElement.id]);
     setImageUrlInput(""); // Clear input
   };
 
+  const handleInsertShape = (presetId: string) => {
+    recordHistory('Add Shape');
+    const newElement = createShapeElement(presetId, dimensions);
+    setElements(prev => [...prev, newElement]);
+    setSelectedIds([newElement.id]);
+  };
+
+  const handleAddText = () => {
+    recordHistory('Add Text');
+    const newElement: DesignElement = {
+      id: `text-${Date.now()}`,
+      type: 'text',
+      content: 'Your text here',
+      x: 0,
+      y: 0,
+      style: {
+        color: '#ffffff',
+        fontFamily: FONT_FAMILIES[0].value,
+        fontWeight: '700',
+        fontSize: '64px',
+      },
+    };
+    // Center the new text using its laid-out size
+    const ctx = document.createElement('canvas').getContext('2d');
+    const box = ctx ? layoutText(ctx, newElement, dimensions.width) : { width: 0, height: 0 };
+    newElement.x = Math.round(Math.max(0, (dimensions.width - box.width) / 2));
+    newElement.y = Math.round(Math.max(0, (dimensions.height - box.height) / 2));
+    setElements(prev => [...prev, newElement]);
+    setSelectedIds([newElement.id]);
+  };
+
+  const handleUpdateTextStyle = (el: DesignElement, updates: React.CSSProperties, coalesceKey?: string) => {
+    handleUpdateElement(el.id, { style: { ...el.style, ...updates } }, coalesceKey ? { coalesceKey: `${coalesceKey}-${el.id}` } : undefined);
+  };
+
+  // Switching to a fixed-width box starts from the text's current width, so nothing re-wraps
+  const handleToggleFixedWidth = (el: DesignElement) => {
+    if (el.width !== undefined) {
+      handleUpdateElement(el.id, { width: undefined });
+      return;
+    }
+    const ctx = document.createElement('canvas').getContext('2d');
+    const width = ctx ? layoutText(ctx, el, dimensions.width).width : MIN_TEXT_BOX_WIDTH;
+    handleUpdateElement(el.id, { width: Math.max(MIN_TEXT_BOX_WIDTH, Math.ceil(width)) });
+  };
+
+  const handleUpdateShape = (el: DesignElement, updates: Partial<ShapeProps>, coalesceKey?: string) => {
+    if (!el.shape) return;
+    handleUpdateElement(el.id, { shape: { ...el.shape, ...updates } }, coalesceKey ? { coalesceKey: `${coalesceKey}-${el.id}` } : undefined);
+  };
+
+  const handleAISettingsChange = (settings: AISettings) => {
+    setAiSettings(settings);
+    saveAISettings(settings);
+  };
+
+  // Generated art is still added if its white backdrop can't be removed
+  const removeGeneratedBackground = async (src: string): Promise<string> => {
+    try {
+      return await removeBackground(src);
+    } catch (error) {
+      console.error("Background removal failed:", error);
+      alert("Could not remove the white background, so the image was added as generated. Try Remove Background in the Cutout panel.");
+      return src;
+    }
+  };
+
   const handleGenerateAIObject = async () => {
     if (!objectPrompt) return;
     setIsGeneratingObject(true);
-    saveHistory();
 
     try {
-      const stickerBase64 = await generateSticker(objectPrompt);
+      const stickerBase64 = await aiProvider.generateSticker(objectPrompt);
       
       if (stickerBase64) {
         // Auto-remove background (assumes white background from prompt)
-        const transparentSticker = await removeBackground(stickerBase64);
+        const transparentSticker = await removeGeneratedBackground(stickerBase64);
 
         const newElement: DesignElement = {
           id: `ai-obj-${Date.now()}`,
           type: 'image',
           content: transparentSticker,
+          source: stickerBase64,
           x: dimensions.width / 2 - 75,
           y: dimensions.height / 2 - 75,
           width: 150,
         };
+        // Recorded once the result arrives so edits made while waiting stay separate
+        recordHistory('Generate Object');
         setElements(prev => [...prev, newElement]);
-        setSelectedElementId(newElement.id);
+        setSelectedIds([newElement.id]);
         setObjectPrompt("");
       } else {
         alert("Failed to generate object. Please try again.");
@@ -207,20 +552,20 @@ const App: React.FC = () => {
 
   // Generates Editable Text (JSON + CSS)
   const handleGenerateEditableDesign = async () => {
-    if (!bgFile || !designPrompt) {
+    if (!bgImage || !designPrompt) {
       alert("Please upload a background image and enter a prompt.");
       return;
     }
     
     setIsAnalyzing(true);
-    saveHistory();
     
     try {
-      const bgBase64 = await fileToBase64(bgFile);
-      const styleBase64 = styleRefFile ? await fileToBase64(styleRefFile) : null;
+      const bgBase64 = dataUrlToBase64(bgImage);
+      const styleBase64 = styleRefImage ? dataUrlToBase64(styleRefImage) : null;
 
       // Generates text content AND style
-      const result = await generateDesign(bgBase64, designPrompt, styleBase64);
+      const result = await aiProvider.generateDesign(bgBase64, designPrompt, styleBase64);
+      recordHistory('Generate Design');
       setAnalysisResult(result);
       
       const newElements: DesignElement[] = [...elements];
@@ -274,26 +619,27 @@ const App: React.FC = () => {
     }
 
     setIsAnalyzing(true);
-    saveHistory();
 
     try {
-      const styleBase64 = styleRefFile ? await fileToBase64(styleRefFile) : null;
-      const imageBase64 = await generateTypographyImage(designPrompt, styleBase64);
+      const styleBase64 = styleRefImage ? dataUrlToBase64(styleRefImage) : null;
+      const imageBase64 = await aiProvider.generateTypographyImage(designPrompt, styleBase64);
 
       if (imageBase64) {
         // Auto-remove background
-        const transparentImage = await removeBackground(imageBase64);
+        const transparentImage = await removeGeneratedBackground(imageBase64);
 
         const newElement: DesignElement = {
           id: `text-art-${Date.now()}`,
           type: 'image',
           content: transparentImage,
+          source: imageBase64,
           x: (dimensions.width - 400) / 2,
           y: (dimensions.height - 200) / 2,
           width: 400, // Default width for text art
         };
+        recordHistory('Generate Text Art');
         setElements(prev => [...prev, newElement]);
-        setSelectedElementId(newElement.id);
+        setSelectedIds([newElement.id]);
       } else {
         alert("Could not generate text art. Try a different prompt.");
       }
@@ -305,52 +651,279 @@ const App: React.FC = () => {
     }
   };
 
-  const handleUpdateElement = useCallback((id: string, updates: Partial<DesignElement>) => {
-    setHistory(prevHistory => {
-        return [...prevHistory, elements];
-    });
-    setRedoStack([]);
-
+  // Inside an open transaction (a drag or resize gesture) this does not add undo steps
+  const handleUpdateElement = useCallback((id: string, updates: Partial<DesignElement>, options?: HistoryOptions) => {
+    recordHistory('Edit', options);
     setElements(prev => prev.map(el => el.id === id ? { ...el, ...updates } : el));
-  }, [elements]);
+  }, [recordHistory]);
 
-  // --- Download Helpers ---
+  // Cutouts always start from the original asset, so the tolerance can be changed and re-run
+  const handleRemoveElementBackground = async (el: DesignElement, options: CutoutOptions) => {
+    const source = el.source ?? el.content;
+    try {
+      const content = await removeBackground(source, options);
+      handleUpdateElement(el.id, { content, source });
+    } catch (error) {
+      console.error("Background removal failed:", error);
+      alert("Could not remove the background of this image. If it comes from another website, its host may not allow editing.");
+    }
+  };
 
-  const performCapture = async (scale: number, transparent: boolean = false) => {
-    const element = document.getElementById('canvas-export-target');
-    if (!element) return null;
+  const handleRevertElement = (el: DesignElement) => {
+    if (!el.source) return;
+    handleUpdateElement(el.id, { content: el.source, source: undefined });
+  };
 
-    // Deselect everything to hide anchors/borders
-    const previousSelection = selectedElementId;
-    setSelectedElementId(null);
-    
-    // Allow state to propagate (removing resize handles)
-    await new Promise(resolve => setTimeout(resolve, 200));
+  useEffect(() => {
+    setBrushMode(null);
+  }, [selectedIds]);
+
+  // Applies changes to several elements as a single history step
+  const handleUpdateElements = useCallback((updates: Record<string, Partial<DesignElement>>, label: string = 'Edit', options?: HistoryOptions) => {
+    recordHistory(label, options);
+    setElements(prev => prev.map(el => updates[el.id] ? { ...el, ...updates[el.id] } : el));
+  }, [recordHistory]);
+
+  // Moves an element to a new index in the stacking order (last = on top)
+  const handleMoveElement = useCallback((id: string, toIndex: number) => {
+    const fromIndex = elements.findIndex(el => el.id === id);
+    if (fromIndex === -1 || toIndex < 0 || toIndex >= elements.length || toIndex === fromIndex) return;
+
+    recordHistory('Reorder Layers');
+    const reordered = [...elements];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    setElements(reordered);
+  }, [elements, recordHistory]);
+
+  // --- Project Files ---
+
+  const loadProjectDocument = (doc: ProjectDocument) => {
+    applyEditorState(doc);
+    setSelectedIds([]);
+    history.clear();
+  };
 
+  const handleSaveProject = async () => {
     try {
-      return await html2canvas(element, {
-        scale: scale,
-        useCORS: true,
-        backgroundColor: transparent ? null : undefined, // Null ensures transparency
-      });
+      const json = await serializeProject(editorState, projectName);
+      const filename = toFileSlug(projectName) || 'project';
+      downloadBlob(new Blob([json], { type: 'application/json' }), `${filename}${PROJECT_FILE_EXTENSION}`);
+    } catch (error) {
+      console.error("Project save failed:", error);
+      alert("Could not save project.");
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow re-opening the same file
+    if (!file) return;
+
+    try {
+      const { name, document } = parseProject(await file.text());
+      loadProjectDocument(document);
+      setProjectName(name);
+      setCurrentProjectId(null); // Autosave stores it as a new library entry
+      unsavedProjectIdRef.current = null;
+    } catch (error) {
+      console.error("Project open failed:", error);
+      alert(`Could not open project: ${(error as Error).message}`);
+    }
+  };
+
+  // --- Autosave & Library ---
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setSavedProjects(await listProjects());
+    } catch (error) {
+      console.error("Could not list projects:", error);
+    }
+  }, []);
+
+  const openStoredProject = async (id: string) => {
+    try {
+      const { summary, document } = await loadProject(id);
+      loadProjectDocument(document);
+      setProjectName(summary.name);
+      setCurrentProjectId(summary.id);
+      setIsLibraryOpen(false);
+    } catch (error) {
+      console.error("Project load failed:", error);
+      alert("Could not open project.");
+    }
+  };
+
+  const handleNewProject = () => {
+    loadProjectDocument({
+      dimensions: { width: 800, height: 800 },
+      elements: [],
+      background: null,
+      backgroundAdjustments: null,
+      backgroundFrame: DEFAULT_BACKGROUND_FRAME,
+      backgroundFill: null,
+      logo: null,
+      styleReference: null,
+      analysis: null,
+      print: DEFAULT_PRINT_SETTINGS,
+      fonts: [],
+    });
+    setProjectName("Untitled Design");
+    setCurrentProjectId(null);
+    unsavedProjectIdRef.current = null;
+    setIsLibraryOpen(false);
+  };
+
+  const handleOpenLibrary = () => {
+    refreshProjects();
+    setIsLibraryOpen(true);
+  };
+
+  const handleRenameStoredProject = async (id: string, name: string) => {
+    if (id === currentProjectId) setProjectName(name);
+    try {
+      await renameProject(id, name);
+    } catch (error) {
+      console.error("Project rename failed:", error);
+      alert("Could not rename project.");
+    } finally {
+      refreshProjects();
+    }
+  };
+
+  const handleDuplicateStoredProject = async (id: string) => {
+    try {
+      await duplicateProject(id);
+    } catch (error) {
+      console.error("Project duplicate failed:", error);
+      alert("Could not duplicate project.");
+    } finally {
+      refreshProjects();
+    }
+  };
+
+  const handleDeleteStoredProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (id === currentProjectId) handleNewProject();
+    } catch (error) {
+      console.error("Project delete failed:", error);
+      alert("Could not delete project.");
     } finally {
-      // Restore selection
-      if(previousSelection) setSelectedElementId(previousSelection);
+      refreshProjects();
+    }
+  };
+
+  const captureThumbnail = async (): Promise<string | null> => {
+    try {
+      const canvas = await renderDocument(
+        editorState,
+        { scale: THUMBNAIL_SIZE / Math.max(dimensions.width, dimensions.height) }
+      );
+      return canvas.toDataURL('image/jpeg', 0.7);
+    } catch {
+      return null;
+    }
+  };
+
+  // Reopen the most recently edited project after a reload or crash
+  useEffect(() => {
+    listProjects()
+      .then(projects => {
+        setSavedProjects(projects);
+        if (projects.length > 0) return openStoredProject(projects[0].id);
+      })
+      .catch(error => console.error("Could not restore last project:", error))
+      .finally(() => setHasRestored(true));
+  }, []);
+
+  useEffect(() => {
+    if (!hasRestored || isDownloading) return;
+    // Nothing worth keeping yet
+    if (!hasBackground && elements.length === 0) return;
+
+    const timer = setTimeout(async () => {
+      const id = currentProjectId ?? (unsavedProjectIdRef.current ??= crypto.randomUUID());
+      try {
+        await saveProject(id, projectName, editorState, await captureThumbnail());
+        // Skip if another project was started or opened while this save was running
+        if (!currentProjectId && unsavedProjectIdRef.current === id) setCurrentProjectId(id);
+      } catch (error) {
+        console.error("Autosave failed:", error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [hasRestored, isDownloading, elements, dimensions, bgImage, bgAdjustments, bgFrame, bgFill, logoImage, styleRefImage, analysisResult, printSettings, customFonts, projectName, currentProjectId]);
+
+  // Keeps document.fonts in step with the project, including undo and project switches
+  useEffect(() => {
+    syncCustomFonts(customFonts);
+  }, [customFonts]);
+
+  // --- Canvas Size & Print Setup ---
+
+  // Sizes are edited in the chosen unit but always stored as canvas pixels
+  const toDisplayUnit = (px: number) => roundForUnit(fromPixels(px, printSettings.unit, printSettings.dpi), printSettings.unit);
+  const fromDisplayUnit = (value: number) => toPixels(value, printSettings.unit, printSettings.dpi);
+
+  // Optionally re-lays out every element so the design adapts to the new size instead of keeping absolute positions
+  const handleResizeCanvas = (target: CanvasDimensions, printUpdates?: Partial<PrintSettings>) => {
+    if (target.width === dimensions.width && target.height === dimensions.height && !printUpdates) return;
+    recordHistory('Resize Canvas');
+
+    if (relayoutOnResize && elements.length > 0) {
+      const container = document.getElementById('canvas-export-target');
+      const rects = container ? measureElementRects(container) : {};
+      setElements(relayoutElements(elements, rects, dimensions, target));
+    }
+    setBgFrame(scaleBackgroundFrame(bgFrame, dimensions, target));
+    setDimensions(target);
+    if (printUpdates) setPrintSettings(prev => ({ ...prev, ...printUpdates }));
+  };
+
+  const handleCanvasSizeChange = (axis: keyof CanvasDimensions, value: number) => {
+    if (!Number.isFinite(value) || value <= 0) return;
+    handleResizeCanvas({ ...dimensions, [axis]: Math.max(1, Math.round(fromDisplayUnit(value))) });
+  };
+
+  const handlePresetChange = (presetId: string) => {
+    const preset = CANVAS_PRESETS.find(p => p.id === presetId);
+    if (preset) handleResizeCanvas({ width: preset.width, height: preset.height }, preset.print);
+  };
+
+  const handlePrintSettingsChange = (updates: Partial<PrintSettings>, coalesceKey?: string) => {
+    recordHistory('Print Setup', { coalesceKey });
+    setPrintSettings(prev => ({ ...prev, ...updates }));
+  };
+
+  // --- Download Helpers ---
+
+  // Every export renders the document model directly, so the editor view is never touched
+  const renderExport = (options: RenderOptions = {}) => renderDocument(
+    editorState,
+    { scale: downloadScale, ...options }
+  );
+
+  // Encodes with the chosen format/quality and downloads as `<baseName>.<ext>`
+  const downloadRaster = async (canvas: HTMLCanvasElement, baseName: string, requireTransparency: boolean = false) => {
+    const encoded = await encodeImage(canvas, imageExport, requireTransparency);
+    downloadBlob(encoded.blob, `${baseName}.${IMAGE_FORMATS[encoded.format].extension}`);
+    if (!encoded.fitsBudget) {
+      alert(`Even at the lowest quality the image is ${Math.ceil(encoded.blob.size / 1024)} KB, above the ${imageExport.maxKb} KB limit. Try a lower resolution.`);
     }
   };
 
   const handleDownload = async () => {
-    if (isDownloading || !bgImage) return;
+    if (isDownloading || !hasBackground) return;
     setIsDownloading(true);
 
     try {
-      const canvas = await performCapture(downloadScale);
-      if (canvas) {
-        const link = document.createElement('a');
-        link.download = `canvas-design-${dimensions.width * downloadScale}x${dimensions.height * downloadScale}.png`;
-        link.href = canvas.toDataURL('image/png');
-        link.click();
-      }
+      const skipped = createSkipReport();
+      const canvas = await renderExport({ onElementError: skipped.onElementError });
+      await downloadRaster(canvas, `canvas-design-${canvas.width}x${canvas.height}`);
+      skipped.notify();
     } catch (error) {
       console.error("Download failed:", error);
       alert("Could not generate image. Please try again.");
@@ -360,67 +933,112 @@ const App: React.FC = () => {
   };
 
   const handleDownloadSelection = async () => {
-    if (isDownloading || !selectedElementId) return;
-    
+    if (isDownloading || selectedIds.length === 0) return;
     setIsDownloading(true);
-    setIsTransparentMode(true); // Reuse this flag to hide bg
-    
-    const originalElements = [...elements];
-    // Filter to isolate the selected element
-    setElements(elements.filter(e => e.id === selectedElementId));
     
     try {
-      await new Promise(resolve => setTimeout(resolve, 200));
-
-      const canvas = await performCapture(downloadScale, true); // Transparent
-      if (canvas) {
-        const link = document.createElement('a');
-        link.download = `selection-${selectedElementId}.png`;
-        link.href = canvas.toDataURL('image/png');
-        link.click();
-      }
+      const skipped = createSkipReport();
+      const canvas = await renderExport({ includeBackground: false, elementIds: selectedIds, onElementError: skipped.onElementError });
+      const baseName = selectedIds.length === 1 ? `selection-${selectedIds[0]}` : `selection-${selectedIds.length}-elements`;
+      await downloadRaster(canvas, baseName, true);
+      skipped.notify();
     } catch (error) {
        console.error(error);
     } finally {
-      setElements(originalElements); // Restore
-      setIsTransparentMode(false);
       setIsDownloading(false);
     }
   };
 
   const handleDownloadTextOnly = async () => {
-    if (isDownloading || elements.length === 0) return;
-    
+    if (isDownloading || visibleElements.length === 0) return;
     setIsDownloading(true);
-    setIsTransparentMode(true); // Switch to transparent mode
 
-    // We do NOT filter by type here anymore. We want everything that is not the background.
+    // We do NOT filter by type here. We want everything that is not the background.
     // This includes AI Stickers, AI Text Art, etc.
     // The "Text Only" button essentially behaves as "Download Overlay / Transparent Design".
 
     try {
-      await new Promise(resolve => setTimeout(resolve, 250));
-      const canvas = await performCapture(downloadScale, true); 
-      if (canvas) {
-        const link = document.createElement('a');
-        link.download = `design-overlay-${dimensions.width}x${dimensions.height}.png`;
-        link.href = canvas.toDataURL('image/png');
-        link.click();
-      }
+      const skipped = createSkipReport();
+      const canvas = await renderExport({ includeBackground: false, onElementError: skipped.onElementError });
+      await downloadRaster(canvas, `design-overlay-${dimensions.width}x${dimensions.height}`, true);
+      skipped.notify();
     } catch (error) {
       console.error("Overlay download failed:", error);
     } finally {
-      setIsTransparentMode(false); 
       setIsDownloading(false);
     }
   };
 
+  // Vector export: text stays editable, raster layers are embedded
+  const handleDownloadSvg = async () => {
+    if (isDownloading || (visibleElements.length === 0 && !hasBackground)) return;
+    setIsDownloading(true);
+
+    try {
+      const skipped = createSkipReport();
+      const svg = await exportSvg(
+        editorState,
+        { includeBackground: svgIncludeBackground, embedFonts: svgEmbedFonts, onElementError: skipped.onElementError }
+      );
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `canvas-design-${dimensions.width}x${dimensions.height}.svg`);
+      skipped.notify();
+    } catch (error) {
+      console.error("SVG export failed:", error);
+      alert("Failed to export SVG.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  // Single-page print PDF at the physical size, with bleed and crop marks
+  const handleDownloadPdf = async () => {
+    if (isDownloading || (visibleElements.length === 0 && !hasBackground)) return;
+    setIsDownloading(true);
+
+    try {
+      const skipped = createSkipReport();
+      const blob = await exportPdf(editorState, printSettings, { title: projectName, onElementError: skipped.onElementError });
+      const filename = toFileSlug(projectName) || 'design';
+      downloadBlob(blob, `${filename}-print.pdf`);
+      skipped.notify();
+    } catch (error) {
+      console.error("PDF export failed:", error);
+      alert("Failed to export PDF.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  // Photoshop file with one positioned raster layer per element
+  const handleDownloadPsd = async () => {
+    if (isDownloading || (elements.length === 0 && !hasBackground)) return;
+    setIsDownloading(true);
+
+    try {
+      const skipped = createSkipReport();
+      const blob = await exportPsd(editorState, { scale: downloadScale, onElementError: skipped.onElementError });
+      downloadBlob(blob, `canvas-design-${dimensions.width}x${dimensions.height}.psd`);
+      skipped.notify();
+    } catch (error) {
+      console.error("PSD export failed:", error);
+      alert("Failed to export PSD.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleOpenCampaign = () => {
+    const container = document.getElementById('canvas-export-target');
+    setCampaignRects(container ? measureElementRects(container) : {});
+  };
+
   const handleDownloadZip = async () => {
     if (isDownloading) return;
     setIsDownloading(true);
 
     try {
       const zip = new JSZip();
+      const skipped = createSkipReport();
 
       // 1. Add Background Image if exists
       if (bgImage) {
@@ -433,53 +1051,40 @@ const App: React.FC = () => {
       }
 
       // 3. Generate Overlay Layer (All elements, transparent bg)
-      if (elements.length > 0) {
-        setIsTransparentMode(true);
-        // We do NOT filter by type here anymore. We want the full overlay.
-        
-        await new Promise(resolve => setTimeout(resolve, 250)); // Wait for render
-        const overlayCanvas = await performCapture(downloadScale, true);
-        if (overlayCanvas) {
-           zip.file("design-overlay.png", dataURLToBlob(overlayCanvas.toDataURL('image/png')));
-        }
-        setIsTransparentMode(false);
-        await new Promise(resolve => setTimeout(resolve, 100));
+      if (visibleElements.length > 0) {
+        const overlayCanvas = await renderExport({ includeBackground: false, onElementError: skipped.onElementError });
+        zip.file("design-overlay.png", await canvasToBlob(overlayCanvas));
       }
 
       // 4. Save Individual Assets (AI Stickers / Text Art / Uploaded URL Images)
       // This satisfies "separate download" for individual AI elements
       elements.forEach((el, index) => {
-        if (el.type === 'image' && el.content.startsWith('data:image')) {
-            // It's a generated or uploaded base64 image
-            zip.file(`assets/element-${index + 1}.png`, dataURLToBlob(el.content));
+        if (!el.hidden && el.type === 'image' && el.content.startsWith('data:image')) {
+            // It's a generated or uploaded base64 image, named after its layer
+            const layerName = toFileSlug(getElementLabel(el));
+            zip.file(`assets/${String(index + 1).padStart(2, '0')}-${layerName}.png`, dataURLToBlob(el.content));
         }
       });
 
       // 5. Generate Full Composite Design
-      const fullCanvas = await performCapture(downloadScale, false);
-      if (fullCanvas) {
-        zip.file("full-design.png", dataURLToBlob(fullCanvas.toDataURL('image/png')));
-      }
+      const fullCanvas = await renderExport({ onElementError: skipped.onElementError });
+      zip.file("full-design.png", await canvasToBlob(fullCanvas));
 
       // Generate Zip Blob and Download
       const content = await zip.generateAsync({ type: "blob" });
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(content);
-      link.download = "canvas-design-package.zip";
-      link.click();
-      URL.revokeObjectURL(link.href);
+      downloadBlob(content, "canvas-design-package.zip");
+      skipped.notify();
 
     } catch (error) {
       console.error("Zip generation failed:", error);
       alert("Failed to create ZIP package.");
     } finally {
-      setIsTransparentMode(false);
       setIsDownloading(false);
     }
   };
 
   const handleShareWhatsApp = async () => {
-    if (isDownloading || !bgImage) return;
+    if (isDownloading || !hasBackground) return;
     if (!navigator.canShare) {
        alert("Sharing files is not supported on this browser. Downloading image instead.");
        handleDownload();
@@ -488,29 +1093,27 @@ const App: React.FC = () => {
 
     setIsDownloading(true);
     try {
-      const canvas = await performCapture(downloadScale);
-      if (!canvas) throw new Error("Capture failed");
-
-      canvas.toBlob(async (blob) => {
-        if (!blob) return;
-        const file = new File([blob], "design.png", { type: "image/png" });
-        const shareData = {
-          files: [file],
-          title: 'CanvasAI Design',
-          text: 'Check out my design created with CanvasAI!',
-        };
-
-        if (navigator.canShare(shareData)) {
-          try {
-            await navigator.share(shareData);
-          } catch (shareError) {
-             if ((shareError as Error).name !== 'AbortError') console.error('Share failed', shareError);
-          }
-        } else {
-          alert("Your device doesn't support sharing this image directly. Downloading instead.");
-          handleDownload();
+      const skipped = createSkipReport();
+      const { blob, format } = await encodeImage(await renderExport({ onElementError: skipped.onElementError }), imageExport);
+      const file = new File([blob], `design.${IMAGE_FORMATS[format].extension}`, { type: blob.type });
+      const shareData = {
+        files: [file],
+        title: 'CanvasAI Design',
+        text: 'Check out my design created with CanvasAI!',
+      };
+
+      if (navigator.canShare(shareData)) {
+        try {
+          await navigator.share(shareData);
+        } catch (shareError) {
+           if ((shareError as Error).name !== 'AbortError') console.error('Share failed', shareError);
         }
-      }, 'image/png');
+      } else {
+        alert("Your device doesn't support sharing this image directly. Downloading instead.");
+        handleDownload();
+      }
+      // After sharing, which needs the click's user activation
+      skipped.notify();
 
     } catch (error) {
       console.error("Share failed:", error);
@@ -520,7 +1123,6 @@ const App: React.FC = () => {
     }
   };
 
-  const selectedElement = elements.find(el => el.id === selectedElementId);
 
   // --- Render ---
 
@@ -537,7 +1139,40 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold tracking-tight">CanvasAI Composer</h1>
           </div>
           <div className="flex items-center gap-4 text-sm text-zinc-400">
-             <span>Powered by Gemini 2.5 Flash</span>
+             <input
+               value={projectName}
+               onChange={(e) => setProjectName(e.target.value)}
+               className="w-44 bg-transparent border border-transparent hover:border-zinc-700 focus:border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200 outline-none"
+               title="Project name"
+             />
+             <button
+               onClick={handleOpenLibrary}
+               className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-zinc-200 text-xs transition-colors"
+               title="Browse projects saved in this browser"
+             >
+               <Library className="w-4 h-4" /> Library
+             </button>
+             <label
+               className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-zinc-200 text-xs cursor-pointer transition-colors"
+               title="Open a saved project file"
+             >
+               <FolderOpen className="w-4 h-4" /> Open
+               <input type="file" className="hidden" accept=".json,application/json" onChange={handleOpenProject} />
+             </label>
+             <button
+               onClick={handleSaveProject}
+               className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-zinc-200 text-xs transition-colors"
+               title="Save an editable project file"
+             >
+               <Save className="w-4 h-4" /> Save
+             </button>
+             <button
+               onClick={() => setIsAISettingsOpen(true)}
+               className="hidden md:flex items-center gap-1.5 hover:text-white transition-colors"
+               title="Choose the AI provider and models"
+             >
+               <Settings2 className="w-4 h-4" /> {getProviderInfo(aiSettings.provider).label} · {aiSettings.designModel}
+             </button>
           </div>
         </div>
       </header>
@@ -553,27 +1188,123 @@ const App: React.FC = () => {
               <Layout className="w-4 h-4 text-indigo-400" /> Canvas & Assets
             </h2>
             
+            <div>
+              <label className="text-xs font-medium text-zinc-400 block mb-1">Size Preset</label>
+              <div className="relative">
+                <select
+                  value={findPreset(dimensions)?.id ?? 'custom'}
+                  onChange={(e) => handlePresetChange(e.target.value)}
+                  className="w-full appearance-none bg-zinc-800 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-200 focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer"
+                >
+                  {CANVAS_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.label} ({preset.width}×{preset.height})</option>
+                  ))}
+                  <option value="custom">Custom</option>
+                </select>
+                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-400 pointer-events-none" />
+              </div>
+            </div>
+
+            {/* Committed on blur/Enter so every keystroke doesn't re-lay out the design */}
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <label className="text-xs font-medium text-zinc-400 block mb-1">Width</label>
+                <label className="text-xs font-medium text-zinc-400 block mb-1">Width ({UNIT_LABELS[printSettings.unit]})</label>
                 <input 
+                  key={`width-${dimensions.width}-${printSettings.unit}-${printSettings.dpi}`}
                   type="number" 
-                  value={dimensions.width}
-                  onChange={(e) => setDimensions(prev => ({...prev, width: Number(e.target.value)}))}
+                  defaultValue={toDisplayUnit(dimensions.width)}
+                  step={printSettings.unit === 'px' ? 1 : 0.1}
+                  onBlur={(e) => handleCanvasSizeChange('width', Number(e.target.value))}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
                   className="w-full bg-zinc-800 border border-zinc-700 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none" 
                 />
               </div>
               <div>
-                <label className="text-xs font-medium text-zinc-400 block mb-1">Height</label>
+                <label className="text-xs font-medium text-zinc-400 block mb-1">Height ({UNIT_LABELS[printSettings.unit]})</label>
                 <input 
+                  key={`height-${dimensions.height}-${printSettings.unit}-${printSettings.dpi}`}
                   type="number" 
-                  value={dimensions.height}
-                  onChange={(e) => setDimensions(prev => ({...prev, height: Number(e.target.value)}))}
+                  defaultValue={toDisplayUnit(dimensions.height)}
+                  step={printSettings.unit === 'px' ? 1 : 0.1}
+                  onBlur={(e) => handleCanvasSizeChange('height', Number(e.target.value))}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
                   className="w-full bg-zinc-800 border border-zinc-700 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none" 
                 />
               </div>
             </div>
 
+            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer" title="Anchor each element to its region of the canvas and scale it with the new size">
+              <input
+                type="checkbox"
+                checked={relayoutOnResize}
+                onChange={(e) => setRelayoutOnResize(e.target.checked)}
+                className="accent-indigo-500"
+              />
+              Re-layout elements when resizing
+            </label>
+
+            {/* Print setup */}
+            <div className="space-y-3 p-3 bg-zinc-950/50 rounded-lg border border-zinc-800">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-[10px] uppercase text-zinc-500 font-bold block mb-1">Units</label>
+                  <select
+                    value={printSettings.unit}
+                    onChange={(e) => handlePrintSettingsChange({ unit: e.target.value as PhysicalUnit })}
+                    className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 outline-none focus:ring-1 focus:ring-indigo-500"
+                  >
+                    <option value="px">Pixels</option>
+                    <option value="mm">Millimeters</option>
+                    <option value="in">Inches</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="text-[10px] uppercase text-zinc-500 font-bold block mb-1">DPI</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={printSettings.dpi}
+                    onChange={(e) => {
+                      const dpi = Number(e.target.value);
+                      if (dpi > 0) handlePrintSettingsChange({ dpi }, 'print-dpi');
+                    }}
+                    className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] uppercase text-zinc-500 font-bold block mb-1">Bleed ({UNIT_LABELS[printSettings.unit]})</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={printSettings.unit === 'px' ? 1 : 0.1}
+                    value={toDisplayUnit(printSettings.bleed)}
+                    onChange={(e) => handlePrintSettingsChange({ bleed: Math.max(0, fromDisplayUnit(Number(e.target.value) || 0)) }, 'print-bleed')}
+                    className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] uppercase text-zinc-500 font-bold block mb-1">Safe Margin ({UNIT_LABELS[printSettings.unit]})</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={printSettings.unit === 'px' ? 1 : 0.1}
+                    value={toDisplayUnit(printSettings.safeMargin)}
+                    onChange={(e) => handlePrintSettingsChange({ safeMargin: Math.max(0, fromDisplayUnit(Number(e.target.value) || 0)) }, 'print-safe-margin')}
+                    className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={printSettings.showSafeArea}
+                  onChange={(e) => handlePrintSettingsChange({ showSafeArea: e.target.checked })}
+                  className="accent-indigo-500"
+                />
+                Show bleed & safe area guides
+              </label>
+            </div>
+
             <div className="grid grid-cols-2 gap-3">
               <label className="flex flex-col items-center justify-center p-3 border border-dashed border-zinc-700 rounded-lg cursor-pointer hover:border-indigo-500 hover:bg-zinc-800/50 transition-colors">
                 <ImageIcon className="w-5 h-5 mb-1 text-zinc-500" />
@@ -587,6 +1318,83 @@ const App: React.FC = () => {
                 <input type="file" className="hidden" accept="image/*" onChange={handleLogoUpload} />
               </label>
             </div>
+
+            <div>
+              <button
+                onClick={() => setIsBgFrameOpen(open => !open)}
+                className="flex items-center gap-1.5 text-xs font-medium text-zinc-400 hover:text-white transition-colors"
+              >
+                <PaintBucket className="w-3.5 h-3.5" /> Fill & Framing
+                {(bgFill || JSON.stringify(bgFrame) !== JSON.stringify(DEFAULT_BACKGROUND_FRAME)) && (
+                  <span className="w-1.5 h-1.5 rounded-full bg-emerald-400" title="Customized" />
+                )}
+                <ChevronDown className={`w-3.5 h-3.5 transition-transform ${isBgFrameOpen ? 'rotate-180' : ''}`} />
+              </button>
+              {isBgFrameOpen && (
+                <div className="mt-2">
+                  <BackgroundPanel
+                    hasImage={Boolean(bgImage)}
+                    frame={bgFrame}
+                    fill={bgFill}
+                    isReframing={isReframing}
+                    onFrameChange={handleBgFrameChange}
+                    onFillChange={handleBgFillChange}
+                    onToggleReframe={() => setIsReframing(on => !on)}
+                    onRemoveImage={handleRemoveBgImage}
+                  />
+                </div>
+              )}
+            </div>
+
+            {bgImage && (
+              <div>
+                <button
+                  onClick={() => setIsBgAdjustOpen(open => !open)}
+                  className="flex items-center gap-1.5 text-xs font-medium text-zinc-400 hover:text-white transition-colors"
+                >
+                  <SlidersHorizontal className="w-3.5 h-3.5" /> Adjust Background
+                  {hasAdjustments(bgAdjustments) && <span className="w-1.5 h-1.5 rounded-full bg-emerald-400" title="Adjusted" />}
+                  <ChevronDown className={`w-3.5 h-3.5 transition-transform ${isBgAdjustOpen ? 'rotate-180' : ''}`} />
+                </button>
+                {isBgAdjustOpen && (
+                  <div className="mt-2">
+                    <AdjustmentsPanel adjustments={bgAdjustments} onChange={handleBgAdjustmentsChange} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Brand Fonts */}
+            <div className="pt-2 border-t border-zinc-800">
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-xs font-medium text-zinc-400">Brand Fonts</label>
+                <label className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 cursor-pointer transition-colors">
+                  <Upload className="w-3.5 h-3.5" /> Upload
+                  <input type="file" className="hidden" accept={FONT_FILE_ACCEPT} multiple onChange={handleFontUpload} />
+                </label>
+              </div>
+              {customFonts.length === 0 ? (
+                <p className="text-[11px] text-zinc-500">TTF, OTF, WOFF or WOFF2. Uploaded fonts are saved with the project.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {customFonts.map(font => (
+                    <li key={font.id} className="flex items-center gap-2 text-xs text-zinc-300">
+                      <span className="flex-1 truncate" style={{ fontFamily: `'${font.family}'`, fontWeight: font.weight, fontStyle: font.style }} title={font.fileName}>
+                        {font.family}
+                      </span>
+                      <span className="text-[10px] text-zinc-500">{font.weight}{font.style === 'italic' ? ' italic' : ''}</span>
+                      <button
+                        onClick={() => handleRemoveFont(font.id)}
+                        className="p-1 rounded hover:bg-red-500/20 text-zinc-500 hover:text-red-400 transition-colors"
+                        title="Remove font"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
             
             {/* Insert Image via URL */}
             <div className="pt-2 border-t border-zinc-800">
@@ -699,13 +1507,26 @@ const App: React.FC = () => {
             </div>
            </section>
 
-          {/* Section 4: Manual Controls (REFINED & CLEANED) */}
+          {/* Section 4: Layers */}
+          {elements.length > 0 && (
+            <LayersPanel
+              elements={elements}
+              selectedIds={selectedIds}
+              onSelect={handleSelect}
+              onUpdateElement={handleUpdateElement}
+              onMove={handleMoveElement}
+            />
+          )}
+
+          {/* Section 5: Manual Controls (REFINED & CLEANED) */}
           {selectedElement && (
             <section className="space-y-4 p-5 bg-zinc-900 rounded-xl border border-zinc-800 shadow-sm animate-in fade-in slide-in-from-left-2">
               <div className="flex items-center justify-between border-b border-zinc-800 pb-2">
                 <h2 className="text-lg font-semibold flex items-center gap-2 text-zinc-100">
                   <MousePointer2 className="w-4 h-4 text-emerald-400" /> 
-                  Edit {selectedElement.type === 'text' ? 'Text' : selectedElement.type === 'image' ? 'Image' : 'Logo'}
+                  Edit {selectedElement.type === 'text' ? 'Text'
+                    : selectedElement.type === 'shape' ? (selectedElement.shape ? SHAPE_LABELS[selectedElement.shape.kind] : 'Shape')
+                    : selectedElement.type === 'image' ? 'Image' : 'Logo'}
                 </h2>
                 <button 
                   onClick={handleDeleteSelected}
@@ -726,7 +1547,7 @@ const App: React.FC = () => {
                       <input 
                         type="number" 
                         value={Math.round(selectedElement.x)}
-                        onChange={(e) => handleUpdateElement(selectedElement.id, { x: Number(e.target.value) })}
+                        onChange={(e) => handleUpdateElement(selectedElement.id, { x: Number(e.target.value) }, { coalesceKey: `x-${selectedElement.id}` })}
                         className="w-full bg-zinc-950 border border-zinc-800 rounded-lg pl-7 pr-3 py-2 text-sm focus:ring-1 focus:ring-emerald-500 outline-none text-zinc-300" 
                       />
                     </div>
@@ -735,7 +1556,7 @@ const App: React.FC = () => {
                       <input 
                         type="number" 
                         value={Math.round(selectedElement.y)}
-                        onChange={(e) => handleUpdateElement(selectedElement.id, { y: Number(e.target.value) })}
+                        onChange={(e) => handleUpdateElement(selectedElement.id, { y: Number(e.target.value) }, { coalesceKey: `y-${selectedElement.id}` })}
                         className="w-full bg-zinc-950 border border-zinc-800 rounded-lg pl-7 pr-3 py-2 text-sm focus:ring-1 focus:ring-emerald-500 outline-none text-zinc-300" 
                       />
                     </div>
@@ -754,30 +1575,294 @@ const App: React.FC = () => {
                         <input 
                           type="number" 
                           value={Math.round(selectedElement.width || 100)}
-                          onChange={(e) => handleUpdateElement(selectedElement.id, { width: Number(e.target.value) })}
+                          onChange={(e) => handleUpdateElement(selectedElement.id, { width: Number(e.target.value) }, { coalesceKey: `width-${selectedElement.id}` })}
                           className="w-full bg-zinc-950 border border-zinc-800 rounded-lg pl-7 pr-3 py-2 text-sm focus:ring-1 focus:ring-emerald-500 outline-none text-zinc-300" 
                         />
                       </div>
                     )}
                     
                     {selectedElement.type === 'text' && (
-                       <div className="relative">
-                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500 text-xs font-mono">Sz</span>
-                        <input 
-                          type="number" 
-                          value={parseInt(selectedElement.style?.fontSize as string || "64")}
-                          onChange={(e) => handleUpdateElement(selectedElement.id, { style: { ...selectedElement.style, fontSize: `${e.target.value}px` } })}
-                          className="w-full bg-zinc-950 border border-zinc-800 rounded-lg pl-8 pr-3 py-2 text-sm focus:ring-1 focus:ring-emerald-500 outline-none text-zinc-300" 
+                      <TypographyPanel
+                        element={selectedElement}
+                        customFonts={customFonts}
+                        onStyleChange={(updates, coalesceKey) => handleUpdateTextStyle(selectedElement, updates, coalesceKey)}
+                        onToggleFixedWidth={() => handleToggleFixedWidth(selectedElement)}
+                        onWidthChange={(width) => handleUpdateElement(selectedElement.id, { width }, { coalesceKey: `width-${selectedElement.id}` })}
+                      />
+                    )}
+
+                    {selectedElement.type === 'shape' && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="relative">
+                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500 text-xs font-mono">W</span>
+                          <input 
+                            type="number" 
+                            min={MIN_SHAPE_SIZE}
+                            value={Math.round(selectedElement.width || 100)}
+                            onChange={(e) => handleUpdateElement(selectedElement.id, { width: Math.max(MIN_SHAPE_SIZE, Number(e.target.value)) }, { coalesceKey: `width-${selectedElement.id}` })}
+                            className="w-full bg-zinc-950 border border-zinc-800 rounded-lg pl-7 pr-3 py-2 text-sm focus:ring-1 focus:ring-emerald-500 outline-none text-zinc-300" 
+                          />
+                        </div>
+                        {selectedElement.shape?.kind !== 'line' && (
+                          <div className="relative">
+                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500 text-xs font-mono">H</span>
+                            <input 
+                              type="number" 
+                              min={MIN_SHAPE_SIZE}
+                              value={Math.round(selectedElement.height || 100)}
+                              onChange={(e) => handleUpdateElement(selectedElement.id, { height: Math.max(MIN_SHAPE_SIZE, Number(e.target.value)) }, { coalesceKey: `height-${selectedElement.id}` })}
+                              className="w-full bg-zinc-950 border border-zinc-800 rounded-lg pl-7 pr-3 py-2 text-sm focus:ring-1 focus:ring-emerald-500 outline-none text-zinc-300" 
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Shape Group: fill, stroke and geometry */}
+                {selectedElement.type === 'shape' && selectedElement.shape && (
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-bold text-zinc-500 block uppercase tracking-wider">Shape</label>
+                    {selectedElement.shape.kind !== 'line' && (
+                      <>
+                        <div className="flex items-center gap-2 text-xs text-zinc-400">
+                          <span className="w-14">Fill</span>
+                          <select
+                            value={selectedElement.shape.gradient ? 'gradient' : selectedElement.shape.fill === 'none' ? 'none' : 'solid'}
+                            onChange={(e) => {
+                              const shape = selectedElement.shape!;
+                              const color = shape.fill === 'none' ? (shape.gradient?.from || DEFAULT_SHAPE_COLOR) : shape.fill;
+                              if (e.target.value === 'none') handleUpdateShape(selectedElement, { fill: 'none', gradient: undefined });
+                              if (e.target.value === 'solid') handleUpdateShape(selectedElement, { fill: color, gradient: undefined });
+                              if (e.target.value === 'gradient') handleUpdateShape(selectedElement, { fill: color, gradient: { from: color, to: '#ec4899', angle: 90 } });
+                            }}
+                            className="flex-1 bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 outline-none focus:ring-1 focus:ring-emerald-500"
+                          >
+                            <option value="solid">Solid</option>
+                            <option value="gradient">Linear Gradient</option>
+                            <option value="none">None</option>
+                          </select>
+                          {selectedElement.shape.fill !== 'none' && !selectedElement.shape.gradient && (
+                            <input
+                              type="color"
+                              value={selectedElement.shape.fill}
+                              onChange={(e) => handleUpdateShape(selectedElement, { fill: e.target.value }, 'fill')}
+                              className="w-8 h-7 bg-transparent border border-zinc-800 rounded cursor-pointer"
+                              title="Fill color"
+                            />
+                          )}
+                        </div>
+                        {selectedElement.shape.gradient && (
+                          <div className="flex items-center gap-2 text-xs text-zinc-400">
+                            <span className="w-14">Colors</span>
+                            <input
+                              type="color"
+                              value={selectedElement.shape.gradient.from}
+                              onChange={(e) => handleUpdateShape(selectedElement, { gradient: { ...selectedElement.shape!.gradient!, from: e.target.value } }, 'gradient-from')}
+                              className="w-8 h-7 bg-transparent border border-zinc-800 rounded cursor-pointer"
+                              title="Start color"
+                            />
+                            <input
+                              type="color"
+                              value={selectedElement.shape.gradient.to}
+                              onChange={(e) => handleUpdateShape(selectedElement, { gradient: { ...selectedElement.shape!.gradient!, to: e.target.value } }, 'gradient-to')}
+                              className="w-8 h-7 bg-transparent border border-zinc-800 rounded cursor-pointer"
+                              title="End color"
+                            />
+                            <input
+                              type="number"
+                              value={selectedElement.shape.gradient.angle}
+                              onChange={(e) => handleUpdateShape(selectedElement, { gradient: { ...selectedElement.shape!.gradient!, angle: ((Number(e.target.value) % 360) + 360) % 360 } }, 'gradient-angle')}
+                              className="w-16 bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 outline-none focus:ring-1 focus:ring-emerald-500"
+                              title="Gradient angle (degrees, 0 = left to right)"
+                            />
+                            <span>°</span>
+                          </div>
+                        )}
+                      </>
+                    )}
+                    <div className="flex items-center gap-2 text-xs text-zinc-400">
+                      <span className="w-14">Stroke</span>
+                      <input
+                        type="color"
+                        value={selectedElement.shape.stroke}
+                        onChange={(e) => handleUpdateShape(selectedElement, { stroke: e.target.value }, 'stroke')}
+                        className="w-8 h-7 bg-transparent border border-zinc-800 rounded cursor-pointer"
+                        title="Stroke color"
+                      />
+                      <input
+                        type="number"
+                        min={selectedElement.shape.kind === 'line' ? 1 : 0}
+                        value={selectedElement.shape.strokeWidth}
+                        onChange={(e) => handleUpdateShape(selectedElement, { strokeWidth: Math.max(selectedElement.shape!.kind === 'line' ? 1 : 0, Number(e.target.value)) }, 'strokeWidth')}
+                        className="w-16 bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 outline-none focus:ring-1 focus:ring-emerald-500"
+                        title="Stroke width (px)"
+                      />
+                      <span>px</span>
+                    </div>
+                    {selectedElement.shape.kind === 'rectangle' && (
+                      <div className="flex items-center gap-2 text-xs text-zinc-400">
+                        <span className="w-14">Radius</span>
+                        <input
+                          type="range"
+                          min={0}
+                          max={Math.round(Math.min(selectedElement.width || 100, selectedElement.height || 100) / 2)}
+                          value={selectedElement.shape.cornerRadius || 0}
+                          onChange={(e) => handleUpdateShape(selectedElement, { cornerRadius: Number(e.target.value) }, 'cornerRadius')}
+                          className="flex-1 accent-emerald-500"
+                        />
+                        <span className="w-8 text-right font-mono">{selectedElement.shape.cornerRadius || 0}</span>
+                      </div>
+                    )}
+                    {(selectedElement.shape.kind === 'polygon' || selectedElement.shape.kind === 'star') && (
+                      <div className="flex items-center gap-2 text-xs text-zinc-400">
+                        <span className="w-14">{selectedElement.shape.kind === 'star' ? 'Points' : 'Sides'}</span>
+                        <input
+                          type="range"
+                          min={3}
+                          max={12}
+                          value={selectedElement.shape.sides || 5}
+                          onChange={(e) => handleUpdateShape(selectedElement, { sides: Number(e.target.value) }, 'sides')}
+                          className="flex-1 accent-emerald-500"
+                        />
+                        <span className="w-8 text-right font-mono">{selectedElement.shape.sides || 5}</span>
+                      </div>
+                    )}
+                    {selectedElement.shape.kind === 'star' && (
+                      <div className="flex items-center gap-2 text-xs text-zinc-400">
+                        <span className="w-14">Inner</span>
+                        <input
+                          type="range"
+                          min={10}
+                          max={90}
+                          value={Math.round((selectedElement.shape.innerRadius ?? 0.5) * 100)}
+                          onChange={(e) => handleUpdateShape(selectedElement, { innerRadius: Number(e.target.value) / 100 }, 'innerRadius')}
+                          className="flex-1 accent-emerald-500"
                         />
+                        <span className="w-8 text-right font-mono">{Math.round((selectedElement.shape.innerRadius ?? 0.5) * 100)}%</span>
                       </div>
                     )}
+                    <div className="flex items-center gap-2 text-xs text-zinc-400">
+                      <span className="w-14">Opacity</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={Math.round((selectedElement.shape.opacity ?? 1) * 100)}
+                        onChange={(e) => handleUpdateShape(selectedElement, { opacity: Number(e.target.value) / 100 }, 'opacity')}
+                        className="flex-1 accent-emerald-500"
+                      />
+                      <span className="w-8 text-right font-mono">{Math.round((selectedElement.shape.opacity ?? 1) * 100)}%</span>
+                    </div>
+                  </div>
+                )}
+
+                {/* Template Group: variables and image slots for Data Merge */}
+                {selectedElement.type !== 'shape' && (
+                <div>
+                  <label className="text-[10px] font-bold text-zinc-500 mb-1.5 block uppercase tracking-wider">Template</label>
+                  {selectedElement.type === 'text' ? (
+                    <>
+                      <textarea
+                        value={selectedElement.content}
+                        onChange={(e) => handleUpdateElement(selectedElement.id, { content: e.target.value }, { coalesceKey: `content-${selectedElement.id}` })}
+                        rows={2}
+                        className="w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm focus:ring-1 focus:ring-emerald-500 outline-none text-zinc-300 resize-none"
+                      />
+                      <p className="mt-1 text-[10px] text-zinc-500">
+                        {getTextVariables(selectedElement.content).length > 0
+                          ? `Variables: ${getTextVariables(selectedElement.content).join(', ')}`
+                          : 'Type {{column}} to fill this text from a CSV.'}
+                      </p>
+                    </>
+                  ) : (
+                    <input
+                      type="text"
+                      value={selectedElement.slot || ''}
+                      onChange={(e) => handleUpdateElement(selectedElement.id, { slot: e.target.value.trim() || undefined }, { coalesceKey: `slot-${selectedElement.id}` })}
+                      placeholder="Image slot (CSV column with image URLs)"
+                      className="w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm focus:ring-1 focus:ring-emerald-500 outline-none text-zinc-300"
+                    />
+                  )}
+                </div>
+                )}
+
+                {/* Adjustments Group: non-destructive color and blur */}
+                {(selectedElement.type === 'logo' || selectedElement.type === 'image') && (
+                  <div>
+                    <label className="text-[10px] font-bold text-zinc-500 mb-1.5 block uppercase tracking-wider">Adjustments</label>
+                    <AdjustmentsPanel
+                      adjustments={selectedElement.adjustments}
+                      onChange={(adjustments, coalesceKey) => handleUpdateElement(
+                        selectedElement.id,
+                        { adjustments: adjustments ?? undefined },
+                        coalesceKey ? { coalesceKey: `adjust-${coalesceKey}-${selectedElement.id}` } : undefined
+                      )}
+                    />
+                  </div>
+                )}
+
+                {/* Crop & Mask Group: the full image is kept, so the crop can always be changed */}
+                {(selectedElement.type === 'logo' || selectedElement.type === 'image') && (
+                  <div>
+                    <label className="text-[10px] font-bold text-zinc-500 mb-1.5 block uppercase tracking-wider">Crop & Mask</label>
+                    <CropPanel element={selectedElement} onChange={(updates) => handleUpdateElement(selectedElement.id, updates)} />
+                  </div>
+                )}
+
+                {/* Cutout Group: background removal and erase/restore brush */}
+                {(selectedElement.type === 'logo' || selectedElement.type === 'image') && (
+                  <div>
+                    <label className="text-[10px] font-bold text-zinc-500 mb-1.5 block uppercase tracking-wider">Cutout</label>
+                    <CutoutPanel
+                      element={selectedElement}
+                      brushMode={brushMode}
+                      brushSize={brushSize}
+                      onBrushModeChange={setBrushMode}
+                      onBrushSizeChange={setBrushSize}
+                      onRemoveBackground={(options) => handleRemoveElementBackground(selectedElement, options)}
+                      onRevert={() => handleRevertElement(selectedElement)}
+                    />
+                  </div>
+                )}
+
+                {/* Transform Group */}
+                <div>
+                  <label className="text-[10px] font-bold text-zinc-500 mb-1.5 block uppercase tracking-wider">Transform</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="relative">
+                      <RotateCw className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3 h-3 text-zinc-500" />
+                      <input 
+                        type="number" 
+                        value={Math.round(selectedElement.rotation || 0)}
+                        onChange={(e) => handleUpdateElement(selectedElement.id, { rotation: ((Number(e.target.value) % 360) + 360) % 360 }, { coalesceKey: `rotation-${selectedElement.id}` })}
+                        className="w-full bg-zinc-950 border border-zinc-800 rounded-lg pl-7 pr-2 py-2 text-sm focus:ring-1 focus:ring-emerald-500 outline-none text-zinc-300" 
+                        title="Rotation (degrees)"
+                      />
+                    </div>
+                    <button
+                      onClick={() => handleUpdateElement(selectedElement.id, { flipX: !selectedElement.flipX })}
+                      className={`flex items-center justify-center rounded-lg border text-xs transition-colors ${selectedElement.flipX ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:text-white'}`}
+                      title="Flip Horizontal"
+                    >
+                      <FlipHorizontal2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleUpdateElement(selectedElement.id, { flipY: !selectedElement.flipY })}
+                      className={`flex items-center justify-center rounded-lg border text-xs transition-colors ${selectedElement.flipY ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:text-white'}`}
+                      title="Flip Vertical"
+                    >
+                      <FlipVertical2 className="w-4 h-4" />
+                    </button>
                   </div>
                 </div>
               </div>
 
               <button 
                 onClick={handleDownloadSelection}
-                className="w-full flex items-center justify-center gap-2 py-2.5 bg-zinc-800 hover:bg-zinc-750 text-emerald-400 border border-zinc-700/50 rounded-lg text-xs font-medium transition-colors mt-2"
+                disabled={selectedElement.hidden}
+                className="w-full flex items-center justify-center gap-2 py-2.5 bg-zinc-800 hover:bg-zinc-750 text-emerald-400 border border-zinc-700/50 rounded-lg text-xs font-medium transition-colors mt-2 disabled:opacity-50"
               >
                 <Crop className="w-3.5 h-3.5" /> 
                 Download Isolated PNG
@@ -785,6 +1870,88 @@ const App: React.FC = () => {
             </section>
           )}
 
+          {/* Section 5b: Multi-selection */}
+          {selectedElements.length > 1 && (
+            <section className="space-y-4 p-5 bg-zinc-900 rounded-xl border border-zinc-800 shadow-sm animate-in fade-in slide-in-from-left-2">
+              <div className="flex items-center justify-between border-b border-zinc-800 pb-2">
+                <h2 className="text-lg font-semibold flex items-center gap-2 text-zinc-100">
+                  <MousePointer2 className="w-4 h-4 text-emerald-400" /> 
+                  {selectedElements.length} Elements Selected
+                </h2>
+                <button 
+                  onClick={handleDeleteSelected}
+                  className="p-1.5 bg-red-500/10 hover:bg-red-500/20 text-red-400 rounded-md transition-colors"
+                  title="Delete Selected Items"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={handleGroupSelected}
+                  className="flex items-center justify-center gap-2 py-2 bg-zinc-950 hover:bg-zinc-800 border border-zinc-800 rounded-lg text-xs text-zinc-300 transition-colors"
+                >
+                  <Group className="w-3.5 h-3.5" /> Group
+                </button>
+                <button
+                  onClick={handleUngroupSelected}
+                  disabled={!selectedElements.some(el => el.groupId)}
+                  className="flex items-center justify-center gap-2 py-2 bg-zinc-950 hover:bg-zinc-800 border border-zinc-800 rounded-lg text-xs text-zinc-300 transition-colors disabled:opacity-50"
+                >
+                  <Ungroup className="w-3.5 h-3.5" /> Ungroup
+                </button>
+              </div>
+
+              <div>
+                <label className="text-[10px] font-bold text-zinc-500 mb-1.5 block uppercase tracking-wider">Align & Distribute</label>
+                <div className="grid grid-cols-8 gap-1">
+                  {([
+                    ['left', AlignStartVertical, 'Align Left'],
+                    ['center', AlignCenterVertical, 'Align Center'],
+                    ['right', AlignEndVertical, 'Align Right'],
+                    ['top', AlignStartHorizontal, 'Align Top'],
+                    ['middle', AlignCenterHorizontal, 'Align Middle'],
+                    ['bottom', AlignEndHorizontal, 'Align Bottom'],
+                  ] as const).map(([mode, Icon, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => handleAlign(mode)}
+                      className="flex items-center justify-center p-2 bg-zinc-950 hover:bg-zinc-800 border border-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors"
+                      title={label}
+                    >
+                      <Icon className="w-4 h-4" />
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => handleDistribute('horizontal')}
+                    disabled={selectedElements.length < 3}
+                    className="flex items-center justify-center p-2 bg-zinc-950 hover:bg-zinc-800 border border-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors disabled:opacity-30"
+                    title="Distribute Horizontally"
+                  >
+                    <AlignHorizontalDistributeCenter className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDistribute('vertical')}
+                    disabled={selectedElements.length < 3}
+                    className="flex items-center justify-center p-2 bg-zinc-950 hover:bg-zinc-800 border border-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors disabled:opacity-30"
+                    title="Distribute Vertically"
+                  >
+                    <AlignVerticalDistributeCenter className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <button 
+                onClick={handleDownloadSelection}
+                className="w-full flex items-center justify-center gap-2 py-2.5 bg-zinc-800 hover:bg-zinc-750 text-emerald-400 border border-zinc-700/50 rounded-lg text-xs font-medium transition-colors"
+              >
+                <Crop className="w-3.5 h-3.5" /> 
+                Download Selection PNG
+              </button>
+            </section>
+          )}
+
           {analysisResult && (
             <div className="p-4 bg-emerald-900/20 border border-emerald-800/50 rounded-lg text-sm text-emerald-100">
               <div className="flex items-start gap-2">
@@ -809,33 +1976,72 @@ const App: React.FC = () => {
             <div className="flex items-center gap-2">
                <button 
                  onClick={handleUndo} 
-                 disabled={history.length === 0}
+                 disabled={!history.canUndo}
                  className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
-                 title="Undo"
+                 title={history.undoLabel ? `Undo ${history.undoLabel}` : 'Undo'}
                >
                  <Undo className="w-4 h-4" />
                </button>
                <button 
                  onClick={handleRedo} 
-                 disabled={redoStack.length === 0}
+                 disabled={!history.canRedo}
                  className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
-                 title="Redo"
+                 title={history.redoLabel ? `Redo ${history.redoLabel}` : 'Redo'}
                >
                  <Redo className="w-4 h-4" />
                </button>
+               <button 
+                 onClick={() => setIsShortcutHelpOpen(true)} 
+                 className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors"
+                 title="Keyboard Shortcuts (?)"
+               >
+                 <Keyboard className="w-4 h-4" />
+               </button>
                <span className="w-px h-4 bg-zinc-700 mx-1"></span>
-               <span className="text-xs text-zinc-500">Drag to move • Drag handle to resize</span>
+               <button
+                 onClick={handleAddText}
+                 className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors"
+                 title="Add Text"
+               >
+                 <Type className="w-4 h-4" />
+               </button>
+               {SHAPE_PRESETS.map(preset => {
+                 const Icon = SHAPE_ICONS[preset.id];
+                 return (
+                   <button
+                     key={preset.id}
+                     onClick={() => handleInsertShape(preset.id)}
+                     className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors"
+                     title={`Add ${preset.label}`}
+                   >
+                     <Icon className="w-4 h-4" />
+                   </button>
+                 );
+               })}
+               <span className="w-px h-4 bg-zinc-700 mx-1"></span>
+               <span className="text-xs text-zinc-500">Drag to move • Shift-click or drag on canvas to multi-select</span>
             </div>
           </div>
           
           <CanvasEditor 
             dimensions={dimensions}
             backgroundImage={bgImage}
+            backgroundAdjustments={bgAdjustments}
+            backgroundFrame={bgFrame}
+            backgroundFill={bgFill}
+            isReframing={isReframing}
+            onBackgroundFrameChange={handleBgFrameChange}
+            brush={brushMode ? { mode: brushMode, size: brushSize } : null}
             elements={elements}
             onUpdateElement={handleUpdateElement}
-            selectedId={selectedElementId}
-            onSelect={setSelectedElementId}
-            transparentBackground={isTransparentMode}
+            onUpdateElements={handleUpdateElements}
+            onTransactionStart={history.beginTransaction}
+            onTransactionEnd={history.endTransaction}
+            selectedIds={selectedIds}
+            onSelect={handleSelect}
+            onSelectMany={handleSelectMany}
+            bleed={printSettings.showSafeArea ? printSettings.bleed : 0}
+            safeMargin={printSettings.showSafeArea ? printSettings.safeMargin : 0}
           />
 
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-zinc-900 p-4 rounded-b-xl border border-zinc-800 border-t-0">
@@ -853,10 +2059,65 @@ const App: React.FC = () => {
               <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-400 pointer-events-none" />
             </div>
 
+            <div className="flex flex-wrap items-center gap-3 w-full sm:w-auto">
+              <div className="relative inline-flex items-center">
+                <select
+                  value={imageExport.format}
+                  onChange={(e) => setImageExport(prev => ({ ...prev, format: e.target.value as ImageFormat }))}
+                  className="appearance-none bg-zinc-800 hover:bg-zinc-750 text-white pl-3 pr-8 py-2.5 rounded-lg border border-zinc-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm cursor-pointer"
+                  title="Image format"
+                >
+                  {(Object.keys(IMAGE_FORMATS) as ImageFormat[]).map(format => (
+                    <option key={format} value={format}>{IMAGE_FORMATS[format].label}</option>
+                  ))}
+                </select>
+                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-400 pointer-events-none" />
+              </div>
+
+              {IMAGE_FORMATS[imageExport.format].lossy && (
+                <>
+                  <label className="flex items-center gap-2 text-xs text-zinc-400" title={imageExport.maxKb ? 'Highest quality tried when fitting under the size limit' : 'Encoding quality'}>
+                    Quality
+                    <input
+                      type="range"
+                      min={5}
+                      max={100}
+                      value={Math.round(imageExport.quality * 100)}
+                      onChange={(e) => setImageExport(prev => ({ ...prev, quality: Number(e.target.value) / 100 }))}
+                      className="w-20 accent-indigo-500"
+                    />
+                    <span className="w-7 text-zinc-300 font-mono">{Math.round(imageExport.quality * 100)}</span>
+                  </label>
+
+                  <label className="flex items-center gap-1.5 text-xs text-zinc-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={imageExport.maxKb !== null}
+                      onChange={(e) => setImageExport(prev => ({ ...prev, maxKb: e.target.checked ? 300 : null }))}
+                      className="accent-indigo-500"
+                    />
+                    Fit under
+                  </label>
+                  {imageExport.maxKb !== null && (
+                    <div className="flex items-center gap-1 text-xs text-zinc-400">
+                      <input
+                        type="number"
+                        min={1}
+                        value={imageExport.maxKb}
+                        onChange={(e) => setImageExport(prev => ({ ...prev, maxKb: Math.max(1, Number(e.target.value) || 1) }))}
+                        className="w-16 bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200 outline-none focus:ring-1 focus:ring-indigo-500"
+                      />
+                      KB
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
             <div className="flex flex-wrap gap-2 w-full sm:w-auto justify-end">
               <button 
                 onClick={handleDownloadTextOnly}
-                disabled={isDownloading || !elements.some(e => e.type === 'text' || e.type === 'image')}
+                disabled={isDownloading || !visibleElements.some(e => e.type === 'text' || e.type === 'image' || e.type === 'shape')}
                 className="flex items-center justify-center gap-2 px-3 py-2.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg transition-colors border border-zinc-700 text-xs"
                 title="Download text overlay/art only (Transparent PNG)"
               >
@@ -864,9 +2125,59 @@ const App: React.FC = () => {
                 <span>Text/Overlay Only</span>
               </button>
 
+              <div className="flex items-center gap-2 pl-3 pr-1 py-1 bg-zinc-800 rounded-lg border border-zinc-700">
+                <label className="flex items-center gap-1 text-[11px] text-zinc-400 cursor-pointer" title="Include the background image in the SVG">
+                  <input
+                    type="checkbox"
+                    checked={svgIncludeBackground}
+                    onChange={(e) => setSvgIncludeBackground(e.target.checked)}
+                    className="accent-indigo-500"
+                  />
+                  BG
+                </label>
+                <label className="flex items-center gap-1 text-[11px] text-zinc-400 cursor-pointer" title="Embed the web fonts used by text layers">
+                  <input
+                    type="checkbox"
+                    checked={svgEmbedFonts}
+                    onChange={(e) => setSvgEmbedFonts(e.target.checked)}
+                    className="accent-indigo-500"
+                  />
+                  Fonts
+                </label>
+                <button
+                  onClick={handleDownloadSvg}
+                  disabled={isDownloading || (visibleElements.length === 0 && !hasBackground)}
+                  className="flex items-center justify-center gap-2 px-3 py-1.5 bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-md transition-colors text-xs"
+                  title="Download SVG with editable text"
+                >
+                  <PenTool className="w-4 h-4" />
+                  <span>SVG</span>
+                </button>
+              </div>
+
+              <button
+                onClick={handleDownloadPdf}
+                disabled={isDownloading || (visibleElements.length === 0 && !hasBackground)}
+                className="flex items-center justify-center gap-2 px-3 py-2.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg transition-colors border border-zinc-700 text-xs"
+                title="Download print-ready PDF with bleed and crop marks"
+              >
+                <Printer className="w-4 h-4" />
+                <span>PDF</span>
+              </button>
+
+              <button
+                onClick={handleDownloadPsd}
+                disabled={isDownloading || (elements.length === 0 && !hasBackground)}
+                className="flex items-center justify-center gap-2 px-3 py-2.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg transition-colors border border-zinc-700 text-xs"
+                title="Download layered PSD (one layer per element)"
+              >
+                <Layers className="w-4 h-4" />
+                <span>PSD</span>
+              </button>
+
               <button 
                 onClick={handleDownloadZip}
-                disabled={isDownloading || !bgImage}
+                disabled={isDownloading || !hasBackground}
                 className="flex items-center justify-center gap-2 px-3 py-2.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg transition-colors border border-zinc-700 text-xs"
                 title="Download ZIP with separate layers"
               >
@@ -874,9 +2185,39 @@ const App: React.FC = () => {
                 <span>ZIP</span>
               </button>
               
+              <button
+                onClick={handleOpenCampaign}
+                disabled={isDownloading || (elements.length === 0 && !hasBackground)}
+                className="flex items-center justify-center gap-2 px-3 py-2.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg transition-colors border border-zinc-700 text-xs"
+                title="Export the design at several sizes in one ZIP"
+              >
+                <LayoutGrid className="w-4 h-4" />
+                <span>Campaign</span>
+              </button>
+
+              <button
+                onClick={() => setIsDataMergeOpen(true)}
+                disabled={isDownloading || elements.length === 0}
+                className="flex items-center justify-center gap-2 px-3 py-2.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg transition-colors border border-zinc-700 text-xs"
+                title="Generate one image per CSV row"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                <span>Data Merge</span>
+              </button>
+
+              <button
+                onClick={() => setIsBatchOpen(true)}
+                disabled={isDownloading || elements.length === 0}
+                className="flex items-center justify-center gap-2 px-3 py-2.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 rounded-lg transition-colors border border-zinc-700 text-xs"
+                title="Place this design on many background photos"
+              >
+                <Images className="w-4 h-4" />
+                <span>Batch</span>
+              </button>
+
               <button 
                 onClick={handleShareWhatsApp}
-                disabled={isDownloading || !bgImage}
+                disabled={isDownloading || !hasBackground}
                 className="flex items-center justify-center gap-2 px-3 py-2.5 bg-green-600 hover:bg-green-500 text-white rounded-lg transition-colors shadow-lg shadow-green-900/20 text-xs"
               >
                 <Share2 className="w-4 h-4" />
@@ -885,7 +2226,7 @@ const App: React.FC = () => {
 
               <button 
                 onClick={handleDownload}
-                disabled={isDownloading || !bgImage}
+                disabled={isDownloading || !hasBackground}
                 className={`flex items-center justify-center gap-2 px-5 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg transition-colors shadow-lg shadow-indigo-900/20 text-sm ${isDownloading ? 'opacity-70 cursor-wait' : ''}`}
               >
                 {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
@@ -896,6 +2237,70 @@ const App: React.FC = () => {
         </div>
 
       </main>
+
+      {isShortcutHelpOpen && <ShortcutHelp onClose={() => setIsShortcutHelpOpen(false)} />}
+
+      {isAISettingsOpen && (
+        <AISettingsDialog settings={aiSettings} onChange={handleAISettingsChange} onClose={() => setIsAISettingsOpen(false)} />
+      )}
+
+      {campaignRects && (
+        <CampaignExport
+          dimensions={dimensions}
+          elements={elements}
+          background={bgImage}
+          backgroundAdjustments={bgAdjustments}
+          backgroundFrame={bgFrame}
+          backgroundFill={bgFill}
+          sourceRects={campaignRects}
+          imageExport={imageExport}
+          scale={downloadScale}
+          projectName={projectName}
+          onClose={() => setCampaignRects(null)}
+        />
+      )}
+
+      {isDataMergeOpen && (
+        <DataMerge
+          dimensions={dimensions}
+          elements={elements}
+          background={bgImage}
+          backgroundAdjustments={bgAdjustments}
+          backgroundFrame={bgFrame}
+          backgroundFill={bgFill}
+          imageExport={imageExport}
+          scale={downloadScale}
+          projectName={projectName}
+          onClose={() => setIsDataMergeOpen(false)}
+        />
+      )}
+
+      {isBatchOpen && (
+        <BatchBackgrounds
+          dimensions={dimensions}
+          elements={elements}
+          designPrompt={designPrompt}
+          styleReference={styleRefImage}
+          imageExport={imageExport}
+          scale={downloadScale}
+          projectName={projectName}
+          aiProvider={aiProvider}
+          onClose={() => setIsBatchOpen(false)}
+        />
+      )}
+
+      {isLibraryOpen && (
+        <ProjectLibrary
+          projects={savedProjects}
+          currentProjectId={currentProjectId}
+          onOpen={openStoredProject}
+          onDuplicate={handleDuplicateStoredProject}
+          onRename={handleRenameStoredProject}
+          onDelete={handleDeleteStoredProject}
+          onNew={handleNewProject}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Settings2, X } from 'lucide-react';
+import { AI_PROVIDERS, AISettings, getDefaultAISettings, getProviderInfo } from '../services/aiProvider';
+
+interface AISettingsDialogProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+export const AISettingsDialog: React.FC<AISettingsDialogProps> = ({ settings, onChange, onClose }) => {
+  const provider = getProviderInfo(settings.provider);
+  const models: { key: 'designModel' | 'imageModel'; label: string; options: string[] }[] = [
+    { key: 'designModel', label: 'Design model', options: provider.designModels },
+    { key: 'imageModel', label: 'Image model', options: provider.imageModels },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-zinc-900 rounded-xl border border-zinc-800 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <h2 className="text-lg font-semibold flex items-center gap-2 text-zinc-100">
+            <Settings2 className="w-4 h-4 text-indigo-400" /> AI Settings
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-zinc-400 block">Provider</label>
+            {AI_PROVIDERS.map(info => (
+              <button
+                key={info.id}
+                onClick={() => { if (info.id !== settings.provider) onChange(getDefaultAISettings(info.id)); }}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${info.id === settings.provider ? 'border-indigo-500 bg-indigo-500/10' : 'border-zinc-800 bg-zinc-950 hover:border-zinc-600'}`}
+              >
+                <div className="text-sm text-zinc-100">{info.label}</div>
+                <div className="text-[11px] text-zinc-500">{info.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {models.map(({ key, label, options }) => (
+            <div key={key}>
+              <label className="text-xs font-medium text-zinc-400 block mb-1">{label}</label>
+              <select
+                value={settings[key]}
+                onChange={(e) => onChange({ ...settings, [key]: e.target.value })}
+                disabled={options.length < 2}
+                className="w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-200 outline-none focus:border-indigo-500 disabled:opacity-60"
+              >
+                {options.map(model => <option key={model} value={model}>{model}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+        <p className="px-5 pb-5 text-[11px] text-zinc-500">
+          Settings are kept in this browser and apply to every project.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { ImageAdjustments } from '../types';
+import { ADJUSTMENT_SLIDERS, DEFAULT_ADJUSTMENTS, hasAdjustments } from '../utils/adjustments';
+
+interface AdjustmentsPanelProps {
+  adjustments?: ImageAdjustments | null;
+  // `coalesceKey` merges a slider drag into one undo step
+  onChange: (adjustments: ImageAdjustments | null, coalesceKey?: string) => void;
+}
+
+export const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({ adjustments, onChange }) => {
+  const values = adjustments ?? DEFAULT_ADJUSTMENTS;
+
+  // Neutral settings are stored as null so untouched images skip the adjustment pass entirely
+  const update = (updates: Partial<ImageAdjustments>, coalesceKey?: string) => {
+    const next = { ...values, ...updates };
+    onChange(next.tintColor !== DEFAULT_ADJUSTMENTS.tintColor || hasAdjustments(next) ? next : null, coalesceKey);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {ADJUSTMENT_SLIDERS.map(({ key, label, min, max, unit }) => (
+        <div key={key} className="flex items-center gap-2 text-xs text-zinc-400">
+          <span className="w-16 shrink-0">{label}</span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            value={values[key]}
+            onChange={(e) => update({ [key]: Number(e.target.value) }, key)}
+            onDoubleClick={() => update({ [key]: DEFAULT_ADJUSTMENTS[key] })}
+            className="flex-1 accent-emerald-500"
+            title="Double-click to reset"
+          />
+          {key === 'tintAmount' && (
+            <input
+              type="color"
+              value={values.tintColor}
+              onChange={(e) => update({ tintColor: e.target.value }, 'tintColor')}
+              className="w-6 h-5 bg-transparent border border-zinc-800 rounded cursor-pointer"
+              title="Tint color"
+            />
+          )}
+          <span className="w-10 text-right font-mono text-[10px]">{values[key]}{unit}</span>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange(null)}
+        disabled={!hasAdjustments(adjustments)}
+        className="flex items-center gap-1 text-[11px] text-zinc-400 hover:text-white disabled:opacity-40 transition-colors"
+      >
+        <RotateCcw className="w-3 h-3" /> Reset adjustments
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React from 'react';
+import { FlipHorizontal2, FlipVertical2, ImageOff, Move, RotateCcw, RotateCw } from 'lucide-react';
+import { BackgroundFill, BackgroundFrame } from '../types';
+import {
+  BACKGROUND_FITS,
+  DEFAULT_BACKGROUND_FILLS,
+  DEFAULT_BACKGROUND_FRAME,
+  MAX_BACKGROUND_ZOOM,
+  MIN_BACKGROUND_ZOOM,
+} from '../utils/background';
+
+interface BackgroundPanelProps {
+  hasImage: boolean;
+  frame: BackgroundFrame;
+  fill: BackgroundFill | null;
+  isReframing: boolean;
+  // `coalesceKey` merges a slider drag or color pick into one undo step
+  onFrameChange: (frame: BackgroundFrame, coalesceKey?: string) => void;
+  onFillChange: (fill: BackgroundFill | null, coalesceKey?: string) => void;
+  onToggleReframe: () => void;
+  onRemoveImage: () => void;
+}
+
+const FILL_TYPES: { value: BackgroundFill['type'] | 'none'; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'solid', label: 'Solid' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'radial', label: 'Radial' },
+];
+
+const segmentClass = (isActive: boolean) =>
+  `flex-1 px-2 py-1 text-[11px] transition-colors ${isActive ? 'bg-emerald-500/10 text-emerald-400' : 'bg-zinc-950 text-zinc-400 hover:text-white'}`;
+
+const iconButtonClass = (isActive: boolean) =>
+  `p-1.5 rounded-lg border transition-colors ${isActive ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:text-white'}`;
+
+const colorInputClass = "w-8 h-6 bg-transparent border border-zinc-800 rounded cursor-pointer";
+
+export const BackgroundPanel: React.FC<BackgroundPanelProps> = ({
+  hasImage,
+  frame,
+  fill,
+  isReframing,
+  onFrameChange,
+  onFillChange,
+  onToggleReframe,
+  onRemoveImage,
+}) => {
+  const updateFrame = (updates: Partial<BackgroundFrame>, coalesceKey?: string) => onFrameChange({ ...frame, ...updates }, coalesceKey);
+
+  // Switching type keeps the current colors where the new type has a matching slot
+  const changeFillType = (type: BackgroundFill['type'] | 'none') => {
+    if (type === 'none') return onFillChange(null);
+    const from = fill ? (fill.type === 'solid' ? fill.color : fill.from) : undefined;
+    const next = DEFAULT_BACKGROUND_FILLS[type];
+    if (!from) return onFillChange(next);
+    if (next.type === 'solid') return onFillChange({ ...next, color: from });
+    onFillChange({ ...next, from, to: fill && fill.type !== 'solid' ? fill.to : next.to });
+  };
+
+  const isFramed = JSON.stringify(frame) !== JSON.stringify(DEFAULT_BACKGROUND_FRAME);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <span className="text-[11px] font-medium text-zinc-500">{hasImage ? 'Fill behind image' : 'Fill'}</span>
+        <div className="flex rounded-lg border border-zinc-800 overflow-hidden">
+          {FILL_TYPES.map(type => (
+            <button key={type.value} onClick={() => changeFillType(type.value)} className={segmentClass((fill?.type ?? 'none') === type.value)}>
+              {type.label}
+            </button>
+          ))}
+        </div>
+        {fill && (
+          <div className="flex items-center gap-2 text-xs text-zinc-400">
+            {fill.type === 'solid' ? (
+              <input
+                type="color"
+                value={fill.color}
+                onChange={(e) => onFillChange({ ...fill, color: e.target.value }, 'fill-color')}
+                className={colorInputClass}
+                title="Fill color"
+              />
+            ) : (
+              <>
+                <input
+                  type="color"
+                  value={fill.from}
+                  onChange={(e) => onFillChange({ ...fill, from: e.target.value }, 'fill-from')}
+                  className={colorInputClass}
+                  title={fill.type === 'radial' ? 'Center color' : 'Start color'}
+                />
+                <input
+                  type="color"
+                  value={fill.to}
+                  onChange={(e) => onFillChange({ ...fill, to: e.target.value }, 'fill-to')}
+                  className={colorInputClass}
+                  title={fill.type === 'radial' ? 'Edge color' : 'End color'}
+                />
+              </>
+            )}
+            {fill.type === 'linear' && (
+              <>
+                <input
+                  type="range"
+                  min={0}
+                  max={359}
+                  value={fill.angle}
+                  onChange={(e) => onFillChange({ ...fill, angle: Number(e.target.value) }, 'fill-angle')}
+                  className="flex-1 accent-emerald-500"
+                  title="Gradient angle"
+                />
+                <span className="w-9 text-right font-mono text-[10px]">{fill.angle}°</span>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {hasImage && (
+        <div className="space-y-1.5">
+          <span className="text-[11px] font-medium text-zinc-500">Image framing</span>
+          <div className="flex rounded-lg border border-zinc-800 overflow-hidden">
+            {BACKGROUND_FITS.map(fit => (
+              <button key={fit.value} onClick={() => updateFrame({ fit: fit.value })} className={segmentClass(frame.fit === fit.value)}>
+                {fit.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-zinc-400">
+            <span className="w-16 shrink-0">Zoom</span>
+            <input
+              type="range"
+              min={MIN_BACKGROUND_ZOOM * 100}
+              max={MAX_BACKGROUND_ZOOM * 100}
+              value={Math.round(frame.zoom * 100)}
+              onChange={(e) => updateFrame({ zoom: Number(e.target.value) / 100 }, 'zoom')}
+              onDoubleClick={() => updateFrame({ zoom: 1 })}
+              className="flex-1 accent-emerald-500"
+              title="Double-click to reset"
+            />
+            <span className="w-10 text-right font-mono text-[10px]">{Math.round(frame.zoom * 100)}%</span>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-zinc-400">
+            <span className="w-16 shrink-0">Rotation</span>
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              value={frame.rotation}
+              onChange={(e) => updateFrame({ rotation: Number(e.target.value) }, 'rotation')}
+              onDoubleClick={() => updateFrame({ rotation: 0 })}
+              className="flex-1 accent-emerald-500"
+              title="Double-click to reset"
+            />
+            <span className="w-10 text-right font-mono text-[10px]">{frame.rotation}°</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <button
+              onClick={() => updateFrame({ rotation: frame.rotation >= 90 ? frame.rotation - 270 : frame.rotation + 90 })}
+              className={iconButtonClass(false)}
+              title="Rotate 90°"
+            >
+              <RotateCw className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => updateFrame({ flipX: !frame.flipX })} className={iconButtonClass(frame.flipX)} title="Flip horizontally">
+              <FlipHorizontal2 className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => updateFrame({ flipY: !frame.flipY })} className={iconButtonClass(frame.flipY)} title="Flip vertically">
+              <FlipVertical2 className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={onToggleReframe}
+              className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg border text-[11px] transition-colors ${isReframing ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:text-white'}`}
+              title="Drag on the canvas to move the image, scroll to zoom"
+            >
+              <Move className="w-3.5 h-3.5" /> {isReframing ? 'Done' : 'Reframe'}
+            </button>
+          </div>
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => onFrameChange({ ...DEFAULT_BACKGROUND_FRAME })}
+              disabled={!isFramed}
+              className="flex items-center gap-1 text-[11px] text-zinc-400 hover:text-white disabled:opacity-40 transition-colors"
+            >
+              <RotateCcw className="w-3 h-3" /> Reset framing
+            </button>
+            <button
+              onClick={onRemoveImage}
+              className="flex items-center gap-1 text-[11px] text-zinc-400 hover:text-red-400 transition-colors"
+            >
+              <ImageOff className="w-3 h-3" /> Remove image
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import JSZip from 'jszip';
+import { AlertTriangle, Archive, Images, Loader2, Sparkles, Trash2, Upload, X } from 'lucide-react';
+import { CanvasDimensions, DesignElement } from '../types';
+import { AIProvider } from '../services/aiProvider';
+import { dataUrlToBase64, downloadBlob, fileToDataUrl, toFileSlug } from '../utils/helpers';
+import { encodeImage, IMAGE_FORMATS, ImageExportSettings } from '../utils/imageExport';
+import { applyAnalysisToElements } from '../utils/layout';
+import { renderDocument } from '../utils/renderer';
+
+interface BatchBackgroundsProps {
+  dimensions: CanvasDimensions;
+  elements: DesignElement[];
+  designPrompt: string;
+  styleReference: string | null;
+  imageExport: ImageExportSettings;
+  scale: number;
+  projectName: string;
+  aiProvider: AIProvider;
+  onClose: () => void;
+}
+
+interface BatchItem {
+  id: string;
+  name: string; // Source file name without extension
+  background: string;
+  elements: DesignElement[];
+  status: 'ready' | 'adapting' | 'adapted' | 'error';
+  thumbnail: string | null;
+}
+
+const PREVIEW_SIZE = 240;
+
+export const BatchBackgrounds: React.FC<BatchBackgroundsProps> = ({
+  dimensions,
+  elements,
+  designPrompt,
+  styleReference,
+  imageExport,
+  scale,
+  projectName,
+  aiProvider,
+  onClose,
+}) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isAdapting, setIsAdapting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const updateItem = (id: string, updates: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
+
+  // Previews are rendered once per layout change, not on every render
+  const renderThumbnail = async (item: Pick<BatchItem, 'id' | 'elements' | 'background'>) => {
+    try {
+      const canvas = await renderDocument(
+        { dimensions, elements: item.elements, background: item.background },
+        { scale: PREVIEW_SIZE / Math.max(dimensions.width, dimensions.height) }
+      );
+      updateItem(item.id, { thumbnail: canvas.toDataURL('image/jpeg', 0.8) });
+    } catch (error) {
+      console.warn("Batch preview failed:", error);
+      updateItem(item.id, { status: 'error' });
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    try {
+      const added = await Promise.all(files.map(async (file, i): Promise<BatchItem> => ({
+        id: `batch-${Date.now()}-${i}`,
+        name: file.name.replace(/\.[^.]+$/, ''),
+        background: await fileToDataUrl(file),
+        elements,
+        status: 'ready',
+        thumbnail: null,
+      })));
+      setItems(prev => [...prev, ...added]);
+      for (const item of added) await renderThumbnail(item);
+    } catch (error) {
+      console.error("Batch upload failed:", error);
+      alert("Could not read some of the images.");
+    }
+  };
+
+  // One analysis per photo, sequentially so we stay within API rate limits
+  const hasPrompt = designPrompt.trim() !== '';
+
+  const handleAdaptAll = async () => {
+    // An empty instruction would spend one API call per photo for nothing
+    if (isAdapting || items.length === 0 || !hasPrompt) return;
+    setIsAdapting(true);
+
+    const styleBase64 = styleReference ? dataUrlToBase64(styleReference) : null;
+    for (const item of items) {
+      updateItem(item.id, { status: 'adapting' });
+      try {
+        const result = await aiProvider.generateDesign(dataUrlToBase64(item.background), designPrompt, styleBase64);
+        const adapted = applyAnalysisToElements(elements, result, dimensions);
+        updateItem(item.id, { elements: adapted, status: 'adapted' });
+        await renderThumbnail({ ...item, elements: adapted });
+      } catch (error) {
+        console.error(`Adapting ${item.name} failed:`, error);
+        updateItem(item.id, { status: 'error' });
+      }
+    }
+    setIsAdapting(false);
+  };
+
+  const handleExport = async () => {
+    if (isExporting || items.length === 0) return;
+    setIsExporting(true);
+
+    try {
+      const zip = new JSZip();
+      for (const [index, item] of items.entries()) {
+        const canvas = await renderDocument({ dimensions, elements: item.elements, background: item.background }, { scale });
+        const encoded = await encodeImage(canvas, imageExport);
+        const name = `${String(index + 1).padStart(3, '0')}-${toFileSlug(item.name) || 'image'}`;
+        zip.file(`${name}.${IMAGE_FORMATS[encoded.format].extension}`, encoded.blob);
+      }
+      const content = await zip.generateAsync({ type: "blob" });
+      downloadBlob(content, `${toFileSlug(projectName) || 'design'}-batch.zip`);
+    } catch (error) {
+      console.error("Batch export failed:", error);
+      alert("Failed to create batch ZIP.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-[85vh] flex flex-col bg-zinc-900 rounded-xl border border-zinc-800 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <h2 className="text-lg font-semibold flex items-center gap-2 text-zinc-100">
+            <Images className="w-4 h-4 text-indigo-400" /> Batch Backgrounds
+          </h2>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-xs transition-colors cursor-pointer">
+              <Upload className="w-4 h-4" /> Add Photos
+              <input type="file" className="hidden" accept="image/*" multiple onChange={handleUpload} />
+            </label>
+            <button
+              onClick={handleAdaptAll}
+              disabled={isAdapting || items.length === 0 || !hasPrompt}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-200 text-xs transition-colors"
+              title={hasPrompt ? 'Re-run the AI design analysis on each photo to adapt text color and position' : 'Enter a design prompt in the AI Creative Assistant first'}
+            >
+              {isAdapting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4 text-indigo-400" />}
+              Adapt with AI
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || isAdapting || items.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs transition-colors"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Archive className="w-4 h-4" />}
+              Download ZIP{items.length > 0 ? ` (${items.length})` : ''}
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-auto p-5">
+          {items.length === 0 ? (
+            <p className="text-sm text-zinc-500 text-center py-12">
+              Add product photos to place the current design on each of them. Review the results here before exporting.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {items.map(item => (
+                <div key={item.id} className={`group rounded-lg border overflow-hidden bg-zinc-950 ${item.status === 'error' ? 'border-red-500/70' : 'border-zinc-800'}`}>
+                  <div className="aspect-video bg-zinc-800 flex items-center justify-center overflow-hidden">
+                    {item.thumbnail ? (
+                      <img src={item.thumbnail} alt={item.name} className="w-full h-full object-contain" />
+                    ) : item.status === 'error' ? (
+                      <AlertTriangle className="w-5 h-5 text-red-400" />
+                    ) : (
+                      <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />
+                    )}
+                  </div>
+                  <div className="p-2 flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs text-zinc-300 truncate" title={item.name}>{item.name}</div>
+                      <div className={`text-[10px] ${item.status === 'error' ? 'text-red-400' : item.status === 'adapted' ? 'text-emerald-400' : 'text-zinc-500'}`}>
+                        {item.status === 'adapting' ? 'Adapting…' : item.status === 'adapted' ? 'Adapted by AI' : item.status === 'error' ? 'Failed' : 'Current layout'}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))}
+                      disabled={isAdapting}
+                      className="p-1.5 rounded hover:bg-red-500/20 text-zinc-400 hover:text-red-400 transition-colors"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import JSZip from 'jszip';
+import { Archive, Loader2, RotateCcw, X } from 'lucide-react';
+import { CanvasEditor } from './CanvasEditor';
+import { BackgroundFill, BackgroundFrame, CanvasDimensions, DesignElement, ImageAdjustments, Rect } from '../types';
+import { downloadBlob, toFileSlug } from '../utils/helpers';
+import { CANVAS_PRESETS, CanvasPreset, relayoutElements } from '../utils/layout';
+import { encodeImage, IMAGE_FORMATS, ImageExportSettings } from '../utils/imageExport';
+import { renderDocument } from '../utils/renderer';
+import { scaleBackgroundFrame } from '../utils/background';
+
+interface CampaignExportProps {
+  dimensions: CanvasDimensions;
+  elements: DesignElement[];
+  background: string | null;
+  backgroundAdjustments: ImageAdjustments | null;
+  backgroundFrame: BackgroundFrame;
+  backgroundFill: BackgroundFill | null;
+  sourceRects: Record<string, Rect>; // Rendered element boxes on the main canvas, used for re-layout
+  imageExport: ImageExportSettings;
+  scale: number;
+  projectName: string;
+  onClose: () => void;
+}
+
+// Square, portrait, story and landscape
+const DEFAULT_TARGETS = ['instagram-post', 'instagram-portrait', 'instagram-story', 'youtube-thumbnail'];
+
+export const CampaignExport: React.FC<CampaignExportProps> = ({
+  dimensions,
+  elements,
+  background,
+  backgroundAdjustments,
+  backgroundFrame,
+  backgroundFill,
+  sourceRects,
+  imageExport,
+  scale,
+  projectName,
+  onClose,
+}) => {
+  const autoLayout = (preset: CanvasPreset) =>
+    relayoutElements(elements, sourceRects, dimensions, { width: preset.width, height: preset.height });
+  const frameFor = (preset: CanvasPreset) =>
+    scaleBackgroundFrame(backgroundFrame, dimensions, { width: preset.width, height: preset.height });
+
+  const [selectedPresets, setSelectedPresets] = useState<string[]>(DEFAULT_TARGETS);
+  // Per-size element lists; created from the auto layout and then adjusted by hand
+  const [variants, setVariants] = useState<Record<string, DesignElement[]>>(() => Object.fromEntries(
+    CANVAS_PRESETS.filter(p => DEFAULT_TARGETS.includes(p.id)).map(p => [p.id, autoLayout(p)])
+  ));
+  const [activeId, setActiveId] = useState<string>(DEFAULT_TARGETS[0]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const targets = CANVAS_PRESETS.filter(p => selectedPresets.includes(p.id));
+  const activePreset = targets.find(p => p.id === activeId) ?? targets[0];
+
+  const togglePreset = (preset: CanvasPreset) => {
+    if (selectedPresets.includes(preset.id)) {
+      setSelectedPresets(prev => prev.filter(id => id !== preset.id));
+      return;
+    }
+    setSelectedPresets(prev => [...prev, preset.id]);
+    if (!variants[preset.id]) setVariants(prev => ({ ...prev, [preset.id]: autoLayout(preset) }));
+    setActiveId(preset.id);
+  };
+
+  const updateActiveVariant = (updates: Record<string, Partial<DesignElement>>) => {
+    if (!activePreset) return;
+    setVariants(prev => ({
+      ...prev,
+      [activePreset.id]: prev[activePreset.id].map(el => updates[el.id] ? { ...el, ...updates[el.id] } : el),
+    }));
+  };
+
+  const handleSelect = (id: string | null, additive?: boolean) => {
+    if (!id) return setSelectedIds([]);
+    setSelectedIds(prev => additive
+      ? (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id])
+      : [id]);
+  };
+
+  const handleExport = async () => {
+    if (isExporting || targets.length === 0) return;
+    setIsExporting(true);
+
+    try {
+      const zip = new JSZip();
+      for (const preset of targets) {
+        const doc = {
+          dimensions: { width: preset.width, height: preset.height },
+          elements: variants[preset.id],
+          background,
+          backgroundAdjustments,
+          backgroundFrame: frameFor(preset),
+          backgroundFill,
+        };
+        const folder = zip.folder(`${toFileSlug(preset.label)}-${preset.width}x${preset.height}`);
+        if (!folder) continue;
+
+        const design = await encodeImage(await renderDocument(doc, { scale }), imageExport);
+        folder.file(`design.${IMAGE_FORMATS[design.format].extension}`, design.blob);
+
+        const overlay = await encodeImage(await renderDocument(doc, { scale, includeBackground: false }), imageExport, true);
+        folder.file(`overlay.${IMAGE_FORMATS[overlay.format].extension}`, overlay.blob);
+      }
+
+      const content = await zip.generateAsync({ type: "blob" });
+      downloadBlob(content, `${toFileSlug(projectName) || 'design'}-campaign.zip`);
+    } catch (error) {
+      console.error("Campaign export failed:", error);
+      alert("Failed to create campaign ZIP.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl max-h-[90vh] flex flex-col bg-zinc-900 rounded-xl border border-zinc-800 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <h2 className="text-lg font-semibold flex items-center gap-2 text-zinc-100">
+            <Archive className="w-4 h-4 text-indigo-400" /> Campaign Export
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExport}
+              disabled={isExporting || targets.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs transition-colors"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Archive className="w-4 h-4" />}
+              Download ZIP ({targets.length} {targets.length === 1 ? 'size' : 'sizes'})
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Target sizes */}
+          <div className="w-64 shrink-0 p-5 border-r border-zinc-800 space-y-2 overflow-auto">
+            <h3 className="text-[10px] uppercase text-zinc-500 font-bold">Target Sizes</h3>
+            {CANVAS_PRESETS.map(preset => (
+              <label key={preset.id} className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedPresets.includes(preset.id)}
+                  onChange={() => togglePreset(preset)}
+                  className="accent-indigo-500"
+                />
+                <span className="flex-1 truncate">{preset.label}</span>
+                <span className="text-[10px] text-zinc-500 font-mono">{preset.width}×{preset.height}</span>
+              </label>
+            ))}
+            <p className="pt-3 text-[11px] text-zinc-500">
+              Each size starts from an automatic layout. Open its tab to adjust elements for that size only.
+            </p>
+          </div>
+
+          {/* Per-size adjustment */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="flex items-center gap-1 px-5 pt-4 border-b border-zinc-800 overflow-x-auto">
+              {targets.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => { setActiveId(preset.id); setSelectedIds([]); }}
+                  className={`px-3 py-2 text-xs rounded-t-lg whitespace-nowrap transition-colors ${preset.id === activePreset?.id ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:text-white'}`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+
+            {activePreset ? (
+              <div className="flex-1 min-h-0 overflow-auto p-5 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-zinc-400">
+                    {activePreset.width}×{activePreset.height}px
+                  </span>
+                  <button
+                    onClick={() => setVariants(prev => ({ ...prev, [activePreset.id]: autoLayout(activePreset) }))}
+                    className="flex items-center gap-1.5 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-xs transition-colors"
+                    title="Discard manual changes for this size"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" /> Reset Layout
+                  </button>
+                </div>
+                <CanvasEditor
+                  canvasId={`campaign-canvas-${activePreset.id}`}
+                  dimensions={{ width: activePreset.width, height: activePreset.height }}
+                  backgroundImage={background}
+                  backgroundAdjustments={backgroundAdjustments}
+                  backgroundFrame={frameFor(activePreset)}
+                  backgroundFill={backgroundFill}
+                  elements={variants[activePreset.id]}
+                  onUpdateElement={(id, updates) => updateActiveVariant({ [id]: updates })}
+                  onUpdateElements={updateActiveVariant}
+                  selectedIds={selectedIds}
+                  onSelect={handleSelect}
+                  onSelectMany={(ids, additive) => setSelectedIds(prev => additive ? Array.from(new Set([...prev, ...ids])) : ids)}
+                />
+              </div>
+            ) : (
+              <p className="text-sm text-zinc-500 text-center py-12">Pick at least one target size.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
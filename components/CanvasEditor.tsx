@@ -1,63 +1,468 @@
-import React from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { DraggableElement } from './DraggableElement';
-import { CanvasDimensions, DesignElement } from '../types';
+import { BackgroundFill, BackgroundFrame, CanvasDimensions, DesignElement, ImageAdjustments, Position, Rect } from '../types';
+import { PLACEHOLDER_BACKGROUND } from '../utils/renderer';
+import { buildFilter, getTintOverlayStyle, hasAdjustments } from '../utils/adjustments';
+import {
+  DEFAULT_BACKGROUND_FRAME,
+  MAX_BACKGROUND_ZOOM,
+  MIN_BACKGROUND_ZOOM,
+  getBackgroundPlacement,
+  getBackgroundTransform,
+  getFillCss,
+} from '../utils/background';
+import { getSnapLines, measureElementRects, snapRect, unionRect, SnapLines } from '../utils/alignment';
+import { BrushMode } from '../utils/cutout';
+import { scaleElement } from '../utils/layout';
 
 interface CanvasEditorProps {
   dimensions: CanvasDimensions;
   backgroundImage: string | null;
+  backgroundAdjustments?: ImageAdjustments | null;
+  backgroundFrame?: BackgroundFrame;
+  backgroundFill?: BackgroundFill | null;
+  // While reframing, dragging pans the background image and the wheel zooms it
+  isReframing?: boolean;
+  // `coalesceKey` merges a continuous wheel zoom into one undo step; a pan is one transaction
+  onBackgroundFrameChange?: (frame: BackgroundFrame, coalesceKey?: string) => void;
   elements: DesignElement[];
   onUpdateElement: (id: string, updates: Partial<DesignElement>) => void;
-  selectedId: string | null;
-  onSelect: (id: string | null) => void;
-  transparentBackground?: boolean;
+  onUpdateElements: (updates: Record<string, Partial<DesignElement>>, label?: string) => void;
+  // Brackets a continuous gesture so it becomes a single undo step
+  onTransactionStart?: (label: string) => void;
+  onTransactionEnd?: () => void;
+  selectedIds: string[];
+  onSelect: (id: string | null, additive?: boolean) => void;
+  onSelectMany: (ids: string[], additive?: boolean) => void;
+  // Print guides, in canvas pixels. Bleed is drawn outside the trim edge, the safe area inside it.
+  bleed?: number;
+  safeMargin?: number;
+  canvasId?: string; // Secondary editors (e.g. campaign variants) need their own id
+  brush?: { mode: BrushMode; size: number } | null; // Applies to the single selected image
 }
 
+const rectsIntersect = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
 export const CanvasEditor: React.FC<CanvasEditorProps> = ({
   dimensions,
   backgroundImage,
+  backgroundAdjustments,
+  backgroundFrame = DEFAULT_BACKGROUND_FRAME,
+  backgroundFill,
+  isReframing = false,
+  onBackgroundFrameChange,
   elements,
   onUpdateElement,
-  selectedId,
+  onUpdateElements,
+  onTransactionStart,
+  onTransactionEnd,
+  selectedIds,
   onSelect,
-  transparentBackground = false,
+  onSelectMany,
+  bleed = 0,
+  safeMargin = 0,
+  canvasId = 'canvas-export-target', // Measured by the align/distribute commands
+  brush,
 }) => {
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  // Rubber-band selection, in canvas coordinates
+  const [marquee, setMarquee] = useState<{ start: Position; end: Position; additive: boolean } | null>(null);
+  // Moving several elements at once
+  const [groupDrag, setGroupDrag] = useState<{
+    ids: string[];
+    mouseX: number;
+    mouseY: number;
+    delta: Position;
+    bounds: Rect;
+    snapLines: SnapLines;
+  } | null>(null);
+  // Scaling the whole selection from its bounding box handle
+  const [groupScale, setGroupScale] = useState<{ mouseX: number; bounds: Rect; originals: DesignElement[]; rects: Record<string, Rect> } | null>(null);
+  const [selectionBounds, setSelectionBounds] = useState<Rect | null>(null);
+  const [guides, setGuides] = useState<SnapLines | null>(null);
+  // Natural size of the background image, needed to place it like the renderer does
+  const [backgroundSize, setBackgroundSize] = useState<CanvasDimensions & { src: string } | null>(null);
+  const [backgroundPan, setBackgroundPan] = useState<{ mouseX: number; mouseY: number; frame: BackgroundFrame } | null>(null);
+  const reframeRef = useRef<HTMLDivElement>(null);
+
+  const isMultiSelection = selectedIds.length > 1;
+
+  // Measures rendered elements so text (which has no stored size) and rotation are accounted for
+  const measureElements = (ids?: string[]): Record<string, Rect> => {
+    return canvasRef.current ? measureElementRects(canvasRef.current, ids) : {};
+  };
+
+  // Snap targets for whatever is being moved: canvas edges/center and every other element
+  const getSnapLinesExcluding = (ids: string[]): SnapLines => {
+    const others = Object.entries(measureElements())
+      .filter(([id]) => !ids.includes(id))
+      .map(([, rect]) => rect);
+    return getSnapLines(dimensions, others);
+  };
+
+  useLayoutEffect(() => {
+    setSelectionBounds(isMultiSelection ? unionRect(Object.values(measureElements(selectedIds))) : null);
+  }, [selectedIds, elements, groupDrag, isMultiSelection]);
+
+  const toCanvasPoint = (clientX: number, clientY: number): Position => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return rect ? { x: clientX - rect.left, y: clientY - rect.top } : { x: 0, y: 0 };
+  };
+
+  // --- Marquee ---
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    const point = toCanvasPoint(e.clientX, e.clientY);
+    setMarquee({ start: point, end: point, additive: e.shiftKey });
+  };
+
+  // --- Group Drag ---
+  const handleGroupDragStart = (element: DesignElement) => (e: React.MouseEvent): boolean => {
+    let ids: string[];
+    if (selectedIds.includes(element.id)) {
+      ids = selectedIds;
+    } else if (element.groupId) {
+      ids = elements.filter(el => el.groupId === element.groupId).map(el => el.id);
+    } else {
+      return false;
+    }
+    const movable = ids.filter(id => !elements.find(el => el.id === id)?.locked);
+    if (ids.length < 2 || movable.length === 0) return false;
+
+    const bounds = unionRect(Object.values(measureElements(movable)));
+    if (!bounds) return false;
+
+    setGroupDrag({
+      ids: movable,
+      mouseX: e.clientX,
+      mouseY: e.clientY,
+      delta: { x: 0, y: 0 },
+      bounds,
+      snapLines: getSnapLinesExcluding(ids),
+    });
+    return true;
+  };
+
+  // --- Group Scale ---
+  const handleGroupScaleStart = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    if (!selectionBounds) return;
+    if (onTransactionStart) onTransactionStart('Scale');
+    const originals = elements.filter(el => selectedIds.includes(el.id) && !el.locked);
+    setGroupScale({
+      mouseX: e.clientX,
+      bounds: selectionBounds,
+      originals,
+      rects: measureElements(originals.map(el => el.id)),
+    });
+  };
+
+  useEffect(() => {
+    if (!marquee && !groupDrag && !groupScale) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (marquee) {
+        setMarquee({ ...marquee, end: toCanvasPoint(e.clientX, e.clientY) });
+      }
+      if (groupDrag) {
+        const delta = { x: e.clientX - groupDrag.mouseX, y: e.clientY - groupDrag.mouseY };
+        // Hold Alt to move freely without snapping
+        if (!e.altKey) {
+          const { bounds } = groupDrag;
+          const snap = snapRect({ ...bounds, x: bounds.x + delta.x, y: bounds.y + delta.y }, groupDrag.snapLines);
+          delta.x += snap.offset.x;
+          delta.y += snap.offset.y;
+          setGuides(snap.guides);
+        } else {
+          setGuides(null);
+        }
+        setGroupDrag({ ...groupDrag, delta });
+      }
+      if (groupScale) {
+        const { bounds, originals, rects } = groupScale;
+        const scale = Math.max(0.1, (bounds.width + e.clientX - groupScale.mouseX) / bounds.width);
+        const updates: Record<string, Partial<DesignElement>> = {};
+        originals.forEach(el => {
+          updates[el.id] = {
+            ...scaleElement(el, rects[el.id], scale),
+            x: bounds.x + (el.x - bounds.x) * scale,
+            y: bounds.y + (el.y - bounds.y) * scale,
+          };
+        });
+        onUpdateElements(updates, 'Scale');
+      }
+    };
+
+    const handleMouseUp = () => {
+      if (marquee) {
+        const box: Rect = {
+          x: Math.min(marquee.start.x, marquee.end.x),
+          y: Math.min(marquee.start.y, marquee.end.y),
+          width: Math.abs(marquee.end.x - marquee.start.x),
+          height: Math.abs(marquee.end.y - marquee.start.y),
+        };
+        // A plain click on the background clears the selection
+        if (box.width < 3 && box.height < 3) {
+          if (!marquee.additive) onSelect(null);
+        } else {
+          const hits = Object.entries(measureElements())
+            .filter(([, rect]) => rectsIntersect(box, rect))
+            .map(([id]) => id);
+          onSelectMany(hits, marquee.additive);
+        }
+        setMarquee(null);
+      }
+      if (groupDrag) {
+        const { delta } = groupDrag;
+        if (delta.x !== 0 || delta.y !== 0) {
+          const updates: Record<string, Partial<DesignElement>> = {};
+          elements.forEach(el => {
+            if (groupDrag.ids.includes(el.id)) updates[el.id] = { x: el.x + delta.x, y: el.y + delta.y };
+          });
+          onUpdateElements(updates, 'Move');
+        }
+        setGroupDrag(null);
+        setGuides(null);
+      }
+      if (groupScale) {
+        setGroupScale(null);
+        if (onTransactionEnd) onTransactionEnd();
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [marquee, groupDrag, groupScale, elements, onSelect, onSelectMany, onUpdateElements, onTransactionEnd]);
+
+  // --- Background Reframing ---
+  // Ignores the size of a previous image until the new one has loaded
+  const backgroundPlacement = backgroundSize && backgroundSize.src === backgroundImage ? getBackgroundPlacement(backgroundSize, dimensions, backgroundFrame) : null;
+
+  const handleBackgroundPanStart = (e: React.MouseEvent) => {
+    if (e.button !== 0 || !onBackgroundFrameChange) return;
+    e.stopPropagation();
+    e.preventDefault();
+    if (onTransactionStart) onTransactionStart('Reframe Background');
+    setBackgroundPan({ mouseX: e.clientX, mouseY: e.clientY, frame: backgroundFrame });
+  };
+
+  useEffect(() => {
+    if (!backgroundPan || !onBackgroundFrameChange) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      onBackgroundFrameChange({
+        ...backgroundPan.frame,
+        offsetX: Math.round(backgroundPan.frame.offsetX + e.clientX - backgroundPan.mouseX),
+        offsetY: Math.round(backgroundPan.frame.offsetY + e.clientY - backgroundPan.mouseY),
+      });
+    };
+    const handleMouseUp = () => {
+      setBackgroundPan(null);
+      if (onTransactionEnd) onTransactionEnd();
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [backgroundPan, onBackgroundFrameChange, onTransactionEnd]);
+
+  // Zooms around the cursor. Registered natively because React's wheel listener is passive
+  // and the surrounding container would scroll instead.
+  useEffect(() => {
+    const overlay = reframeRef.current;
+    if (!overlay || !onBackgroundFrameChange) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const zoom = Math.min(MAX_BACKGROUND_ZOOM, Math.max(MIN_BACKGROUND_ZOOM, backgroundFrame.zoom * Math.exp(-e.deltaY * 0.001)));
+      const ratio = zoom / backgroundFrame.zoom;
+      const point = toCanvasPoint(e.clientX, e.clientY);
+      const fromCenter = { x: point.x - dimensions.width / 2, y: point.y - dimensions.height / 2 };
+      onBackgroundFrameChange({
+        ...backgroundFrame,
+        zoom,
+        offsetX: Math.round(fromCenter.x - (fromCenter.x - backgroundFrame.offsetX) * ratio),
+        offsetY: Math.round(fromCenter.y - (fromCenter.y - backgroundFrame.offsetY) * ratio),
+      }, 'zoom');
+    };
+    overlay.addEventListener('wheel', handleWheel, { passive: false });
+    return () => overlay.removeEventListener('wheel', handleWheel);
+  }, [isReframing, backgroundImage, backgroundFrame, dimensions, onBackgroundFrameChange]);
+
+  const hasBackground = Boolean(backgroundImage || backgroundFill);
+
   return (
-    <div className="relative overflow-auto p-8 bg-zinc-900/50 rounded-xl border border-zinc-800 flex justify-center items-center shadow-inner min-h-[500px]">
+    <div
+      className="relative overflow-auto p-8 bg-zinc-900/50 rounded-xl border border-zinc-800 flex justify-center items-center shadow-inner min-h-[500px]"
+      style={bleed > 0 ? { padding: bleed + 32 } : undefined}
+    >
       <div
-        id="canvas-export-target" // Target for potential export
+        ref={canvasRef}
+        id={canvasId}
         className="relative shadow-2xl transition-all duration-300 overflow-hidden"
         style={{
           width: dimensions.width,
           height: dimensions.height,
-          // In transparentBackground mode, we remove background image and color to ensure transparency
-          backgroundImage: !transparentBackground && backgroundImage ? `url(${backgroundImage})` : 'none',
-          backgroundSize: 'cover',
-          backgroundPosition: 'center',
-          backgroundColor: transparentBackground ? 'transparent' : (backgroundImage ? 'transparent' : '#e5e5e5'),
-          boxShadow: transparentBackground ? 'none' : undefined, 
+          backgroundColor: hasBackground ? 'transparent' : PLACEHOLDER_BACKGROUND,
+          // The outline sits outside the box, so overflow-hidden doesn't clip the bleed zone
+          outline: bleed > 0 ? `${bleed}px solid rgba(239, 68, 68, 0.25)` : undefined,
         }}
-        onClick={() => onSelect(null)}
+        onMouseDown={handleCanvasMouseDown}
       >
-        {!backgroundImage && !transparentBackground && (
-           <div className="absolute inset-0 flex items-center justify-center text-zinc-400 font-medium">
+        {/* Fill layer, painted under the image */}
+        {backgroundFill && (
+          <div className="absolute inset-0 pointer-events-none" style={{ background: getFillCss(backgroundFill) }} />
+        )}
+
+        {/* Background image layer. It is clipped before the filter, like the export, and
+            adjustments are previewed with the same filter the export uses. */}
+        {backgroundImage && (
+          <div
+            className="absolute inset-0 overflow-hidden pointer-events-none"
+            style={{ filter: hasAdjustments(backgroundAdjustments) ? buildFilter(backgroundAdjustments) : undefined }}
+          >
+            <div
+              className="absolute"
+              style={backgroundPlacement ? {
+                left: backgroundPlacement.cx - backgroundPlacement.width / 2,
+                top: backgroundPlacement.cy - backgroundPlacement.height / 2,
+                width: backgroundPlacement.width,
+                height: backgroundPlacement.height,
+                transform: getBackgroundTransform(backgroundFrame),
+              } : { visibility: 'hidden' }}
+            >
+              <img
+                src={backgroundImage}
+                alt=""
+                draggable={false}
+                className="block w-full h-full"
+                onLoad={(e) => setBackgroundSize({ src: backgroundImage, width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              />
+              {hasAdjustments(backgroundAdjustments) && backgroundAdjustments.tintAmount > 0 && (
+                <div className="absolute inset-0" style={getTintOverlayStyle(backgroundImage, backgroundAdjustments, '100% 100%')} />
+              )}
+            </div>
+          </div>
+        )}
+
+        {!hasBackground && (
+           <div className="absolute inset-0 flex items-center justify-center text-zinc-400 font-medium pointer-events-none">
              Upload a background to start
            </div>
         )}
 
-        {elements.map((el) => {
+        {elements.map((el, index) => {
+          if (el.hidden) return null;
+          const isSelected = selectedIds.includes(el.id);
           return (
             <DraggableElement
               key={el.id}
               element={el}
+              zIndex={index + 1}
               canvasWidth={dimensions.width}
               canvasHeight={dimensions.height}
               onUpdate={onUpdateElement}
-              isSelected={selectedId === el.id}
-              onSelect={() => onSelect(el.id)}
+              isSelected={isSelected}
+              isMultiSelected={isSelected && isMultiSelection}
+              onSelect={(additive) => onSelect(el.id, additive)}
+              onGroupDragStart={handleGroupDragStart(el)}
+              offset={groupDrag?.ids.includes(el.id) ? groupDrag.delta : undefined}
+              getSnapLines={() => getSnapLinesExcluding([el.id])}
+              onSnapGuides={setGuides}
+              onTransactionStart={onTransactionStart}
+              onTransactionEnd={onTransactionEnd}
+              brush={isSelected ? brush : null}
             />
           );
         })}
+
+        {/* Group bounding box */}
+        {selectionBounds && (
+          <div
+            className="absolute border border-dashed border-blue-400 pointer-events-none"
+            style={{
+              left: selectionBounds.x - 4,
+              top: selectionBounds.y - 4,
+              width: selectionBounds.width + 8,
+              height: selectionBounds.height + 8,
+              zIndex: elements.length + 1,
+            }}
+          >
+            <div
+              className="absolute -bottom-2 -right-2 w-4 h-4 bg-white border-2 border-blue-500 rounded-full cursor-nwse-resize shadow-sm pointer-events-auto hover:scale-110 transition-transform"
+              onMouseDown={handleGroupScaleStart}
+              title="Drag to scale selection"
+            />
+          </div>
+        )}
+
+        {/* Safe area */}
+        {safeMargin > 0 && (
+          <div
+            className="absolute border border-dashed border-emerald-400/80 pointer-events-none"
+            style={{
+              left: safeMargin,
+              top: safeMargin,
+              width: Math.max(0, dimensions.width - safeMargin * 2),
+              height: Math.max(0, dimensions.height - safeMargin * 2),
+              zIndex: elements.length + 3,
+            }}
+          />
+        )}
+
+        {/* Snap guides */}
+        {guides?.vertical.map(x => (
+          <div key={`v-${x}`} className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none" style={{ left: x, zIndex: elements.length + 3 }} />
+        ))}
+        {guides?.horizontal.map(y => (
+          <div key={`h-${y}`} className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none" style={{ top: y, zIndex: elements.length + 3 }} />
+        ))}
+
+        {/* Reframe overlay: sits above the elements so every drag moves the background */}
+        {isReframing && backgroundImage && (
+          <div
+            ref={reframeRef}
+            className="absolute inset-0 cursor-move ring-2 ring-inset ring-emerald-400/70"
+            style={{ zIndex: elements.length + 4 }}
+            onMouseDown={handleBackgroundPanStart}
+            title="Drag to move the background, scroll to zoom"
+          >
+            {backgroundPlacement && (
+              <div
+                className="absolute border border-dashed border-emerald-300 pointer-events-none"
+                style={{
+                  left: backgroundPlacement.cx - backgroundPlacement.width / 2,
+                  top: backgroundPlacement.cy - backgroundPlacement.height / 2,
+                  width: backgroundPlacement.width,
+                  height: backgroundPlacement.height,
+                  transform: getBackgroundTransform(backgroundFrame),
+                }}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Marquee */}
+        {marquee && (
+          <div
+            className="absolute border border-blue-400 bg-blue-400/10 pointer-events-none"
+            style={{
+              left: Math.min(marquee.start.x, marquee.end.x),
+              top: Math.min(marquee.start.y, marquee.end.y),
+              width: Math.abs(marquee.end.x - marquee.start.x),
+              height: Math.abs(marquee.end.y - marquee.start.y),
+              zIndex: elements.length + 2,
+            }}
+          />
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { CanvasDimensions, DesignElement, Position, Rect } from '../types';
+import { toLocalDelta } from '../utils/geometry';
+import { getCrop, getCropUpdates, getImageSize, MIN_CROP_SIZE } from '../utils/crop';
+
+type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface CropOverlayProps {
+  element: DesignElement;
+  natural: CanvasDimensions;
+  style?: React.CSSProperties;
+  onUpdate: (updates: Partial<DesignElement>) => void;
+  onTransactionStart?: (label: string) => void;
+  onTransactionEnd?: () => void;
+}
+
+const CORNERS: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: '-top-1.5 -left-1.5 cursor-nwse-resize' },
+  { handle: 'ne', className: '-top-1.5 -right-1.5 cursor-nesw-resize' },
+  { handle: 'sw', className: '-bottom-1.5 -left-1.5 cursor-nesw-resize' },
+  { handle: 'se', className: '-bottom-1.5 -right-1.5 cursor-nwse-resize' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Crop mode: the full image is shown faded behind the element, whose box is the crop window.
+// Corners resize the window (Shift keeps its aspect ratio) and dragging inside pans the image.
+// All math happens in the image's own space: unrotated and unflipped.
+export const CropOverlay: React.FC<CropOverlayProps> = ({ element, natural, style, onUpdate, onTransactionStart, onTransactionEnd }) => {
+  const [drag, setDrag] = useState<{ handle: CropHandle; mouse: Position; element: DesignElement } | null>(null);
+
+  const crop = getCrop(element);
+  const size = getImageSize(element, natural);
+  const fullWidth = size.width / crop.width;
+  const fullHeight = size.height / crop.height;
+
+  const handleMouseDown = (handle: CropHandle) => (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    if (onTransactionStart) onTransactionStart('Crop');
+    setDrag({ handle, mouse: { x: e.clientX, y: e.clientY }, element });
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+    const start = drag.element;
+    const startCrop = getCrop(start);
+    const startSize = getImageSize(start, natural);
+    const full = { width: startSize.width / startCrop.width, height: startSize.height / startCrop.height };
+    // The window at drag start, in display pixels over the full image
+    const window0: Rect = { x: startCrop.x * full.width, y: startCrop.y * full.height, width: startSize.width, height: startSize.height };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const local = toLocalDelta({ x: e.clientX - drag.mouse.x, y: e.clientY - drag.mouse.y }, start.rotation || 0);
+      const dx = start.flipX ? -local.x : local.x;
+      const dy = start.flipY ? -local.y : local.y;
+
+      let next: Rect;
+      if (drag.handle === 'move') {
+        // The image follows the pointer, so the window moves the other way
+        next = {
+          ...window0,
+          x: clamp(window0.x - dx, 0, full.width - window0.width),
+          y: clamp(window0.y - dy, 0, full.height - window0.height),
+        };
+      } else {
+        const sx = drag.handle.includes('e') ? 1 : -1;
+        const sy = drag.handle.includes('s') ? 1 : -1;
+        // The opposite corner stays put
+        const anchor = { x: sx > 0 ? window0.x : window0.x + window0.width, y: sy > 0 ? window0.y : window0.y + window0.height };
+        const maxWidth = sx > 0 ? full.width - anchor.x : anchor.x;
+        const maxHeight = sy > 0 ? full.height - anchor.y : anchor.y;
+        let width = window0.width + sx * dx;
+        let height = window0.height + sy * dy;
+        if (e.shiftKey) {
+          const aspect = window0.width / window0.height;
+          height = width / aspect;
+          const fit = Math.min(1, maxWidth / width, maxHeight / height);
+          width = Math.max(MIN_CROP_SIZE, width * fit);
+          height = width / aspect;
+        } else {
+          width = clamp(width, MIN_CROP_SIZE, maxWidth);
+          height = clamp(height, MIN_CROP_SIZE, maxHeight);
+        }
+        next = { x: sx > 0 ? anchor.x : anchor.x - width, y: sy > 0 ? anchor.y : anchor.y - height, width, height };
+      }
+
+      onUpdate(getCropUpdates(start, natural, {
+        x: next.x / full.width,
+        y: next.y / full.height,
+        width: next.width / full.width,
+        height: next.height / full.height,
+      }));
+    };
+
+    const handleMouseUp = () => {
+      setDrag(null);
+      if (onTransactionEnd) onTransactionEnd();
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag, natural, onUpdate, onTransactionEnd]);
+
+  return (
+    <>
+      {/* Full image, faded and stacked behind the element's own (cropped) content */}
+      <div className="absolute inset-0 pointer-events-none" style={{ ...style, zIndex: -1 }}>
+        <img
+          src={element.content}
+          alt=""
+          crossOrigin="anonymous"
+          className="absolute max-w-none opacity-30"
+          style={{ left: -crop.x * fullWidth, top: -crop.y * fullHeight, width: fullWidth, height: fullHeight }}
+        />
+      </div>
+      <div className="absolute inset-0 border-2 border-dashed border-white cursor-move z-40" style={style} onMouseDown={handleMouseDown('move')}>
+        {CORNERS.map(({ handle, className }) => (
+          <div
+            key={handle}
+            className={`absolute w-3 h-3 bg-white border-2 border-blue-500 ${className}`}
+            onMouseDown={handleMouseDown(handle)}
+          />
+        ))}
+      </div>
+    </>
+  );
+};
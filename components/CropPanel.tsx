@@ -0,0 +1,67 @@
+import React from 'react';
+import { Crop, RotateCcw } from 'lucide-react';
+import { DesignElement, ImageCrop, MaskShape } from '../types';
+import { loadImage } from '../utils/renderer';
+import { CROP_ASPECTS, FULL_CROP, MASK_SHAPES, fitCropToAspect, getCrop, getCropUpdates } from '../utils/crop';
+
+interface CropPanelProps {
+  element: DesignElement;
+  onChange: (updates: Partial<DesignElement>) => void;
+}
+
+export const CropPanel: React.FC<CropPanelProps> = ({ element, onChange }) => {
+  // Crops are fractions of the natural size, so the presets need the image's real dimensions
+  const applyCrop = async (getNext: (natural: { width: number; height: number }) => ImageCrop) => {
+    try {
+      const image = await loadImage(element.content);
+      const natural = { width: image.naturalWidth, height: image.naturalHeight };
+      onChange(getCropUpdates(element, natural, getNext(natural)));
+    } catch (error) {
+      console.error("Could not load image for cropping:", error);
+      alert("Could not crop this image.");
+    }
+  };
+
+  const masks: { value: MaskShape | undefined; label: string }[] = [{ value: undefined, label: 'None' }, ...MASK_SHAPES];
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-1">
+        <Crop className="w-3.5 h-3.5 text-zinc-500 shrink-0 mr-1" />
+        {CROP_ASPECTS.map(({ label, value }) => (
+          <button
+            key={label}
+            onClick={() => applyCrop(natural => fitCropToAspect(getCrop(element), value, natural))}
+            className="flex-1 py-1 rounded bg-zinc-950 border border-zinc-800 text-[11px] text-zinc-400 hover:text-white hover:border-zinc-600 transition-colors"
+            title={`Crop to ${label}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex rounded-lg border border-zinc-800 overflow-hidden">
+        {masks.map(({ value, label }) => (
+          <button
+            key={label}
+            onClick={() => onChange({ mask: value })}
+            className={`flex-1 py-1.5 text-[11px] transition-colors ${element.mask === value ? 'bg-emerald-500/10 text-emerald-400' : 'bg-zinc-950 text-zinc-400 hover:text-white'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => applyCrop(() => FULL_CROP)}
+          disabled={!element.crop}
+          className="flex items-center gap-1 text-[11px] text-zinc-400 hover:text-white disabled:opacity-40 transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" /> Reset crop
+        </button>
+        <span className="text-[10px] text-zinc-500">Double-click the image to crop on the canvas</span>
+      </div>
+    </div>
+  );
+};
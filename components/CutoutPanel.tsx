@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Brush, Eraser, Loader2, RotateCcw, Scissors } from 'lucide-react';
+import { DesignElement } from '../types';
+import { BrushMode, CutoutOptions, DEFAULT_CUTOUT_OPTIONS, MAX_CUTOUT_FEATHER, MAX_CUTOUT_TOLERANCE } from '../utils/cutout';
+
+interface CutoutPanelProps {
+  element: DesignElement;
+  brushMode: BrushMode | null;
+  brushSize: number;
+  onBrushModeChange: (mode: BrushMode | null) => void;
+  onBrushSizeChange: (size: number) => void;
+  onRemoveBackground: (options: CutoutOptions) => Promise<void>;
+  onRevert: () => void;
+}
+
+const BRUSH_MODES: { value: BrushMode; label: string; icon: typeof Eraser }[] = [
+  { value: 'erase', label: 'Erase', icon: Eraser },
+  { value: 'restore', label: 'Restore', icon: Brush },
+];
+
+export const CutoutPanel: React.FC<CutoutPanelProps> = ({
+  element,
+  brushMode,
+  brushSize,
+  onBrushModeChange,
+  onBrushSizeChange,
+  onRemoveBackground,
+  onRevert,
+}) => {
+  const [options, setOptions] = useState<CutoutOptions>(DEFAULT_CUTOUT_OPTIONS);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  const handleRemove = async () => {
+    setIsRemoving(true);
+    try {
+      await onRemoveBackground(options);
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2 text-xs text-zinc-400">
+        <span className="w-16 shrink-0">Tolerance</span>
+        <input
+          type="range"
+          min={1}
+          max={MAX_CUTOUT_TOLERANCE}
+          value={options.tolerance}
+          onChange={(e) => setOptions({ ...options, tolerance: Number(e.target.value) })}
+          className="flex-1 accent-emerald-500"
+          title="How far a color may be from the backdrop and still be removed"
+        />
+        <span className="w-10 text-right font-mono text-[10px]">{options.tolerance}</span>
+      </div>
+      <div className="flex items-center gap-2 text-xs text-zinc-400">
+        <span className="w-16 shrink-0">Feather</span>
+        <input
+          type="range"
+          min={0}
+          max={MAX_CUTOUT_FEATHER}
+          value={options.feather}
+          onChange={(e) => setOptions({ ...options, feather: Number(e.target.value) })}
+          className="flex-1 accent-emerald-500"
+          title="Width of the soft edge"
+        />
+        <span className="w-10 text-right font-mono text-[10px]">{options.feather}px</span>
+      </div>
+      <button
+        onClick={handleRemove}
+        disabled={isRemoving}
+        className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-zinc-200 text-xs disabled:opacity-50 transition-colors"
+        title={element.source ? 'Runs again on the original image' : 'Removes the backdrop connected to the image border'}
+      >
+        {isRemoving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Scissors className="w-3.5 h-3.5" />}
+        Remove Background
+      </button>
+
+      <div className="flex items-center gap-2 pt-1">
+        <div className="flex rounded-lg border border-zinc-800 overflow-hidden">
+          {BRUSH_MODES.map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => onBrushModeChange(brushMode === value ? null : value)}
+              className={`flex items-center gap-1 px-2 py-1.5 text-[11px] transition-colors ${brushMode === value ? 'bg-emerald-500/10 text-emerald-400' : 'bg-zinc-950 text-zinc-400 hover:text-white'}`}
+              title={`${label} brush: paint on the image in the canvas`}
+            >
+              <Icon className="w-3.5 h-3.5" /> {label}
+            </button>
+          ))}
+        </div>
+        <input
+          type="range"
+          min={4}
+          max={120}
+          value={brushSize}
+          onChange={(e) => onBrushSizeChange(Number(e.target.value))}
+          className="flex-1 min-w-0 accent-emerald-500"
+          title="Brush size"
+        />
+        <span className="w-8 text-right font-mono text-[10px] text-zinc-400">{brushSize}</span>
+      </div>
+
+      <button
+        onClick={onRevert}
+        disabled={!element.source}
+        className="flex items-center gap-1 text-[11px] text-zinc-400 hover:text-white disabled:opacity-40 transition-colors"
+      >
+        <RotateCcw className="w-3 h-3" /> Revert to original
+      </button>
+    </div>
+  );
+};
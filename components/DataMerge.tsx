@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import JSZip from 'jszip';
+import { AlertTriangle, Archive, FileSpreadsheet, Loader2, Upload, X } from 'lucide-react';
+import { BackgroundFill, BackgroundFrame, CanvasDimensions, DesignElement, ImageAdjustments } from '../types';
+import { downloadBlob, getElementLabel, toFileSlug } from '../utils/helpers';
+import { encodeImage, IMAGE_FORMATS, ImageExportSettings } from '../utils/imageExport';
+import { renderDocument } from '../utils/renderer';
+import { CsvData, findOverflowingElements, getTemplateFields, mergeRow, parseCsv, rowFileName } from '../utils/template';
+
+interface DataMergeProps {
+  dimensions: CanvasDimensions;
+  elements: DesignElement[];
+  background: string | null;
+  backgroundAdjustments: ImageAdjustments | null;
+  backgroundFrame: BackgroundFrame;
+  backgroundFill: BackgroundFill | null;
+  imageExport: ImageExportSettings;
+  scale: number;
+  projectName: string;
+  onClose: () => void;
+}
+
+interface RowPreview {
+  thumbnail: string | null;
+  overflowing: string[]; // Labels of text elements that no longer fit
+}
+
+const PREVIEW_SIZE = 240;
+
+export const DataMerge: React.FC<DataMergeProps> = ({
+  dimensions,
+  elements,
+  background,
+  backgroundAdjustments,
+  backgroundFrame,
+  backgroundFill,
+  imageExport,
+  scale,
+  projectName,
+  onClose,
+}) => {
+  const [csv, setCsv] = useState<CsvData | null>(null);
+  const [previews, setPreviews] = useState<RowPreview[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const fields = getTemplateFields(elements);
+  const headers = csv?.headers.map(h => h.toLowerCase()) ?? [];
+  const missingFields = csv ? fields.filter(field => !headers.includes(field.toLowerCase())) : [];
+  const overflowCount = previews.filter(p => p.overflowing.length > 0).length;
+
+  // Renders row thumbnails one at a time so large sheets don't block the UI
+  useEffect(() => {
+    if (!csv) return;
+    let cancelled = false;
+    setPreviews([]);
+
+    (async () => {
+      for (const row of csv.rows) {
+        const merged = mergeRow(elements, row);
+        const overflowIds = findOverflowingElements(elements, merged, dimensions);
+        let thumbnail: string | null = null;
+        try {
+          const canvas = await renderDocument(
+            { dimensions, elements: merged, background, backgroundAdjustments, backgroundFrame, backgroundFill },
+            { scale: PREVIEW_SIZE / Math.max(dimensions.width, dimensions.height) }
+          );
+          thumbnail = canvas.toDataURL('image/jpeg', 0.8);
+        } catch (error) {
+          console.warn("Preview render failed:", error);
+        }
+        if (cancelled) return;
+        const overflowing = merged.filter(el => overflowIds.includes(el.id)).map(getElementLabel);
+        setPreviews(prev => [...prev, { thumbnail, overflowing }]);
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, [csv, elements, dimensions, background, backgroundAdjustments, backgroundFrame, backgroundFill]);
+
+  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const data = parseCsv(await file.text());
+      if (data.rows.length === 0) throw new Error('The CSV file has a header row but no data rows.');
+      setCsv(data);
+    } catch (error) {
+      console.error("CSV import failed:", error);
+      alert(`Could not read CSV: ${(error as Error).message}`);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!csv || isExporting) return;
+    setIsExporting(true);
+
+    try {
+      const zip = new JSZip();
+      for (const [index, row] of csv.rows.entries()) {
+        const canvas = await renderDocument({ dimensions, elements: mergeRow(elements, row), background, backgroundAdjustments, backgroundFrame, backgroundFill }, { scale });
+        const encoded = await encodeImage(canvas, imageExport);
+        zip.file(`${rowFileName(row, index)}.${IMAGE_FORMATS[encoded.format].extension}`, encoded.blob);
+      }
+      const content = await zip.generateAsync({ type: "blob" });
+      downloadBlob(content, `${toFileSlug(projectName) || 'design'}-merge.zip`);
+    } catch (error) {
+      console.error("Data merge export failed:", error);
+      alert("Failed to create merged images.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-[85vh] flex flex-col bg-zinc-900 rounded-xl border border-zinc-800 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <h2 className="text-lg font-semibold flex items-center gap-2 text-zinc-100">
+            <FileSpreadsheet className="w-4 h-4 text-indigo-400" /> Data Merge
+          </h2>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-xs transition-colors cursor-pointer">
+              <Upload className="w-4 h-4" /> {csv ? 'Replace CSV' : 'Import CSV'}
+              <input type="file" className="hidden" accept=".csv,text/csv" onChange={handleCsvUpload} />
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={!csv || isExporting}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs transition-colors"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Archive className="w-4 h-4" />}
+              Download ZIP{csv ? ` (${csv.rows.length})` : ''}
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-5 py-3 border-b border-zinc-800 space-y-1 text-xs">
+          <div className="text-zinc-400">
+            Fields in this design:{' '}
+            {fields.length > 0
+              ? fields.map(field => <code key={field} className="mx-0.5 px-1.5 py-0.5 rounded bg-zinc-800 text-emerald-400">{field}</code>)
+              : <span className="text-zinc-500">none yet. Add <code className="text-emerald-400">{'{{column}}'}</code> to a text element or give an image a slot name.</span>}
+          </div>
+          {missingFields.length > 0 && (
+            <div className="flex items-center gap-1.5 text-amber-400">
+              <AlertTriangle className="w-3.5 h-3.5" /> Missing CSV columns: {missingFields.join(', ')}
+            </div>
+          )}
+          {overflowCount > 0 && (
+            <div className="flex items-center gap-1.5 text-red-400">
+              <AlertTriangle className="w-3.5 h-3.5" /> {overflowCount} {overflowCount === 1 ? 'row overflows' : 'rows overflow'} the original text box
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-auto p-5">
+          {!csv ? (
+            <p className="text-sm text-zinc-500 text-center py-12">
+              Import a CSV whose header row names the fields above. Each row becomes one image.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {csv.rows.map((row, index) => {
+                const preview = previews[index];
+                const overflows = !!preview && preview.overflowing.length > 0;
+                return (
+                  <div key={index} className={`rounded-lg border overflow-hidden bg-zinc-950 ${overflows ? 'border-red-500/70' : 'border-zinc-800'}`}>
+                    <div className="aspect-video bg-zinc-800 flex items-center justify-center overflow-hidden">
+                      {preview?.thumbnail ? (
+                        <img src={preview.thumbnail} alt={`Row ${index + 1}`} className="w-full h-full object-contain" />
+                      ) : (
+                        <Loader2 className="w-5 h-5 text-zinc-600 animate-spin" />
+                      )}
+                    </div>
+                    <div className="p-2 space-y-1">
+                      <div className="text-xs text-zinc-300 truncate" title={rowFileName(row, index)}>{rowFileName(row, index)}</div>
+                      {overflows && (
+                        <div className="flex items-center gap-1 text-[10px] text-red-400" title={preview.overflowing.join(', ')}>
+                          <AlertTriangle className="w-3 h-3 shrink-0" />
+                          <span className="truncate">Overflows: {preview.overflowing.join(', ')}</span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
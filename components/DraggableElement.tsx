@@ -1,70 +1,196 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { DesignElement } from '../types';
+import { CanvasDimensions, DesignElement, Position, Rect } from '../types';
+import { angleFromCenter, resizeAroundTopLeft, toLocalDelta } from '../utils/geometry';
+import { snapRect, SnapLines } from '../utils/alignment';
+import { getShapeSize, MIN_SHAPE_SIZE } from '../utils/shapes';
+import { MIN_TEXT_BOX_WIDTH } from '../utils/typography';
+import { BrushMode } from '../utils/cutout';
+import { ShapeGraphic } from './ShapeGraphic';
+import { MaskBrushOverlay } from './MaskBrushOverlay';
+import { ImageGraphic } from './ImageGraphic';
+import { CropOverlay } from './CropOverlay';
 
 interface DraggableElementProps {
   element: DesignElement;
+  zIndex: number; // Stacking order from the element's position in the layer list
   canvasWidth: number;
   canvasHeight: number;
   onUpdate: (id: string, updates: Partial<DesignElement>) => void;
   isSelected?: boolean;
-  onSelect?: () => void;
+  isMultiSelected?: boolean; // Part of a selection of several elements: no own handles
+  onSelect?: (additive: boolean) => void;
+  // Lets the canvas move several elements together; returns true if it took over the drag
+  onGroupDragStart?: (e: React.MouseEvent) => boolean;
+  offset?: Position; // Visual offset while the canvas drags a group
+  getSnapLines?: () => SnapLines;
+  onSnapGuides?: (guides: SnapLines | null) => void;
+  onTransactionStart?: (label: string) => void;
+  onTransactionEnd?: () => void;
+  brush?: { mode: BrushMode; size: number } | null; // Erase/restore painting on a selected image
 }
 
 export const DraggableElement: React.FC<DraggableElementProps> = ({
   element,
+  zIndex,
   canvasWidth,
   canvasHeight,
   onUpdate,
   isSelected,
+  isMultiSelected,
   onSelect,
+  onGroupDragStart,
+  offset,
+  getSnapLines,
+  onSnapGuides,
+  onTransactionStart,
+  onTransactionEnd,
+  brush,
 }) => {
   // Local state for smooth dragging/resizing before committing to parent
   const [position, setPosition] = useState({ x: element.x, y: element.y });
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [isRotating, setIsRotating] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isCropping, setIsCropping] = useState(false);
+  const [naturalSize, setNaturalSize] = useState<CanvasDimensions | null>(null); // Images only
+  // Pointer and element position at drag start; deltas are rotation-independent
+  const [dragStart, setDragStart] = useState<{
+    mouseX: number;
+    mouseY: number;
+    x: number;
+    y: number;
+    bounds: Rect | null; // Rendered bounding box in canvas coordinates
+    snapLines: SnapLines | null;
+  }>({ mouseX: 0, mouseY: 0, x: 0, y: 0, bounds: null, snapLines: null });
   const [initialResizeData, setInitialResizeData] = useState<{ 
     width: number; 
     height: number; 
     mouseX: number; 
     mouseY: number;
     fontSize: number;
+    x: number;
+    y: number;
+    mode: 'scale' | 'width'; // Text only: scale the type, or change the wrapping box width
   } | null>(null);
+  const [rotationCenter, setRotationCenter] = useState({ x: 0, y: 0 });
+
+  const rotation = element.rotation || 0;
 
   const elementRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
 
   // Sync state with props when not interacting
   useEffect(() => {
-    if (!isDragging && !isResizing) {
+    if (!isDragging) {
       setPosition({ x: element.x, y: element.y });
     }
-  }, [element.x, element.y, isDragging, isResizing]);
+  }, [element.x, element.y, isDragging]);
+
+  // --- Inline Text Editing ---
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!isEditing || !editor) return;
+    editor.focus();
+    const range = document.createRange();
+    range.selectNodeContents(editor);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  }, [isEditing]);
+
+  const isImage = element.type === 'logo' || element.type === 'image';
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (element.locked) return;
+    if (isImage) {
+      e.stopPropagation();
+      setIsCropping(!isCropping);
+      return;
+    }
+    if (element.type !== 'text' || isEditing) return;
+    e.stopPropagation();
+    setIsEditing(true);
+  };
+
+  const commitEdit = () => {
+    if (!editorRef.current) return;
+    const content = editorRef.current.innerText.replace(/\n$/, '');
+    setIsEditing(false);
+    if (content !== element.content) onUpdate(element.id, { content });
+  };
+
+  // Enter adds a line; Escape discards the edit and Mod+Enter finishes it
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    if (e.key === 'Escape' && editorRef.current) {
+      editorRef.current.innerText = element.content;
+      editorRef.current.blur();
+    } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      editorRef.current?.blur();
+    }
+  };
+
+  // --- Crop Mode ---
+  // Double-click enters it; Enter, Escape or deselecting leaves it
+  const canCrop = isImage && isSelected && !isMultiSelected && !element.locked;
+  useEffect(() => {
+    if (!canCrop) setIsCropping(false);
+  }, [canCrop]);
+
+  useEffect(() => {
+    if (!isCropping) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === 'Escape') setIsCropping(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isCropping]);
 
   // --- Drag Logic ---
   const handleMouseDown = (e: React.MouseEvent) => {
-    if (isResizing) return;
+    if (isResizing || isRotating) return;
     
     // Crucial: Stop propagation so the canvas click handler doesn't immediately deselect
     e.stopPropagation();
+    if (isEditing || isCropping) return; // Let the caret and text selection, or the crop handles, work
+
+    // Shift-click toggles the element in the selection without dragging
+    if (e.shiftKey) {
+      if (onSelect) onSelect(true);
+      return;
+    }
     
-    if (onSelect) onSelect();
+    if (onSelect) onSelect(false);
+    if (onGroupDragStart && onGroupDragStart(e)) return;
+    if (element.locked) return;
     
-    if (elementRef.current) {
+    let bounds: Rect | null = null;
+    const parentRect = elementRef.current?.offsetParent?.getBoundingClientRect();
+    if (elementRef.current && parentRect) {
       const rect = elementRef.current.getBoundingClientRect();
-      setDragOffset({
-        x: e.clientX - rect.left,
-        y: e.clientY - rect.top
-      });
+      bounds = { x: rect.left - parentRect.left, y: rect.top - parentRect.top, width: rect.width, height: rect.height };
     }
+
+    setDragStart({
+      mouseX: e.clientX,
+      mouseY: e.clientY,
+      x: position.x,
+      y: position.y,
+      bounds,
+      snapLines: getSnapLines ? getSnapLines() : null,
+    });
     setIsDragging(true);
   };
 
   // --- Resize Logic ---
-  const handleResizeStart = (e: React.MouseEvent) => {
+  const handleResizeStart = (mode: 'scale' | 'width') => (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault(); // Prevent text selection
-    if (onSelect) onSelect();
+    if (onSelect) onSelect(false);
+    if (element.locked) return;
     
+    if (onTransactionStart) onTransactionStart('Resize');
     setIsResizing(true);
     
     const currentWidth = elementRef.current?.offsetWidth || 0;
@@ -78,21 +204,48 @@ export const DraggableElement: React.FC<DraggableElementProps> = ({
       height: currentHeight,
       mouseX: e.clientX,
       mouseY: e.clientY,
-      fontSize: currentFontSize
+      fontSize: currentFontSize,
+      x: element.x,
+      y: element.y,
+      mode,
     });
   };
 
+  // --- Rotate Logic ---
+  const handleRotateStart = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    if (onSelect) onSelect(false);
+    if (element.locked || !elementRef.current) return;
+
+    // The bounding rect of a rotated box shares its center with the box itself
+    const rect = elementRef.current.getBoundingClientRect();
+    setRotationCenter({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+    if (onTransactionStart) onTransactionStart('Rotate');
+    setIsRotating(true);
+  };
+
   // --- Window Event Listeners ---
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
       // Dragging
-      if (isDragging && elementRef.current) {
-        const parentRect = elementRef.current.offsetParent?.getBoundingClientRect();
-        // If no parent rect (e.g. unmounted), stop
-        if (!parentRect) return;
+      if (isDragging) {
+        let deltaX = e.clientX - dragStart.mouseX;
+        let deltaY = e.clientY - dragStart.mouseY;
 
-        let newX = e.clientX - parentRect.left - dragOffset.x;
-        let newY = e.clientY - parentRect.top - dragOffset.y;
+        // Snap edges/centers to guides; hold Alt to move freely
+        const { bounds, snapLines } = dragStart;
+        if (bounds && snapLines && !e.altKey) {
+          const snap = snapRect({ ...bounds, x: bounds.x + deltaX, y: bounds.y + deltaY }, snapLines);
+          deltaX += snap.offset.x;
+          deltaY += snap.offset.y;
+          if (onSnapGuides) onSnapGuides(snap.guides);
+        } else if (onSnapGuides) {
+          onSnapGuides(null);
+        }
+
+        const newX = dragStart.x + deltaX;
+        const newY = dragStart.y + deltaY;
         
         // Update local visual state immediately
         setPosition({ x: newX, y: newY });
@@ -100,36 +253,76 @@ export const DraggableElement: React.FC<DraggableElementProps> = ({
 
       // Resizing
       if (isResizing && initialResizeData && elementRef.current) {
-        const deltaX = e.clientX - initialResizeData.mouseX;
+        // Measure the pointer movement along the element's own axes
+        const { x: deltaX, y: deltaY } = toLocalDelta({
+          x: e.clientX - initialResizeData.mouseX,
+          y: e.clientY - initialResizeData.mouseY,
+        }, rotation);
+        const { width, height } = initialResizeData;
 
         if (element.type === 'logo' || element.type === 'image') {
           // Resize Image
-          const newWidth = Math.max(20, initialResizeData.width + deltaX);
-           onUpdate(element.id, { width: newWidth });
+          const newWidth = Math.max(20, width + deltaX);
+          const newHeight = height * (newWidth / width);
+          const anchored = resizeAroundTopLeft(initialResizeData.x, initialResizeData.y, width, height, newWidth, newHeight, rotation);
+          onUpdate(element.id, { width: newWidth, ...anchored });
+        } else if (element.type === 'text' && initialResizeData.mode === 'width') {
+          // Resize the text box; the text re-wraps inside the new width
+          const newWidth = Math.max(MIN_TEXT_BOX_WIDTH, width + deltaX);
+          const anchored = resizeAroundTopLeft(initialResizeData.x, initialResizeData.y, width, height, newWidth, height, rotation);
+          onUpdate(element.id, { width: Math.round(newWidth), ...anchored });
         } else if (element.type === 'text') {
            // Resize Text (Scale Font Size)
-           const scaleFactor = (initialResizeData.width + deltaX) / initialResizeData.width;
+           const scaleFactor = (width + deltaX) / width;
            const newFontSize = Math.max(12, Math.round(initialResizeData.fontSize * scaleFactor));
+           const actualScale = newFontSize / initialResizeData.fontSize;
+           const anchored = resizeAroundTopLeft(initialResizeData.x, initialResizeData.y, width, height, width * actualScale, height * actualScale, rotation);
            onUpdate(element.id, { 
-             style: { ...element.style, fontSize: `${newFontSize}px` } 
+             style: { ...element.style, fontSize: `${newFontSize}px` },
+             ...(element.width !== undefined ? { width: Math.round(width * actualScale) } : {}),
+             ...anchored,
            });
+        } else if (element.type === 'shape') {
+          // Resize Shape (free aspect; Shift keeps proportions, lines only get longer)
+          const newWidth = Math.max(MIN_SHAPE_SIZE, width + deltaX);
+          const isLine = element.shape?.kind === 'line';
+          const newHeight = isLine ? height
+            : e.shiftKey ? height * (newWidth / width)
+            : Math.max(MIN_SHAPE_SIZE, height + deltaY);
+          const anchored = resizeAroundTopLeft(initialResizeData.x, initialResizeData.y, width, height, newWidth, newHeight, rotation);
+          onUpdate(element.id, { width: Math.round(newWidth), ...(isLine ? {} : { height: Math.round(newHeight) }), ...anchored });
         }
       }
+
+      // Rotating (hold Shift to snap to 15° steps)
+      if (isRotating) {
+        let angle = angleFromCenter(rotationCenter, { x: e.clientX, y: e.clientY });
+        if (e.shiftKey) angle = Math.round(angle / 15) * 15 % 360;
+        onUpdate(element.id, { rotation: Math.round(angle) });
+      }
     };
 
     const handleMouseUp = () => {
       if (isDragging) {
         setIsDragging(false);
-        // Commit final position to parent state
-        onUpdate(element.id, { x: position.x, y: position.y });
+        if (onSnapGuides) onSnapGuides(null);
+        // Commit final position to parent state (a plain click is not a move)
+        if (position.x !== element.x || position.y !== element.y) {
+          onUpdate(element.id, { x: position.x, y: position.y });
+        }
       }
       if (isResizing) {
         setIsResizing(false);
         setInitialResizeData(null);
+        if (onTransactionEnd) onTransactionEnd();
+      }
+      if (isRotating) {
+        setIsRotating(false);
+        if (onTransactionEnd) onTransactionEnd();
       }
     };
 
-    if (isDragging || isResizing) {
+    if (isDragging || isResizing || isRotating) {
       window.addEventListener('mousemove', handleMouseMove);
       window.addEventListener('mouseup', handleMouseUp);
     }
@@ -138,7 +331,7 @@ export const DraggableElement: React.FC<DraggableElementProps> = ({
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, isResizing, dragOffset, initialResizeData, element.id, onUpdate, element.type, position.x, position.y]);
+  }, [isDragging, isResizing, isRotating, dragStart, initialResizeData, rotationCenter, rotation, element.id, element.style, element.width, element.shape, onUpdate, onSnapGuides, onTransactionEnd, element.x, element.y, element.type, position.x, position.y]);
 
   // Clean styles to avoid positioning conflicts
   const cleanStyle = element.style ? { ...element.style } : {};
@@ -147,46 +340,114 @@ export const DraggableElement: React.FC<DraggableElementProps> = ({
   delete cleanStyle.left;
   delete cleanStyle.transform;
 
+  // Flips apply to the content only, so handles stay where the user expects them
+  const flipTransform = element.flipX || element.flipY
+    ? `scale(${element.flipX ? -1 : 1}, ${element.flipY ? -1 : 1})`
+    : undefined;
+
+  const shapeSize = element.type === 'shape' ? getShapeSize(element) : null;
+  const isBrushing = Boolean(brush && canCrop);
+
   return (
     <div
       ref={elementRef}
+      data-element-id={element.id}
       style={{
         position: 'absolute',
-        left: position.x,
-        top: position.y,
-        cursor: isDragging ? 'grabbing' : 'grab',
-        zIndex: isSelected ? 50 : 10,
+        left: position.x + (offset?.x || 0),
+        top: position.y + (offset?.y || 0),
+        cursor: isEditing ? 'text' : element.locked ? 'default' : isDragging ? 'grabbing' : 'grab',
+        zIndex,
         touchAction: 'none',
-        width: (element.type === 'logo' || element.type === 'image') ? element.width : 'auto',
+        transform: rotation ? `rotate(${rotation}deg)` : undefined,
+        transformOrigin: 'center center',
+        width: shapeSize ? shapeSize.width : element.width ?? 'auto',
+        height: shapeSize ? shapeSize.height : undefined,
       }}
-      className={`group select-none ${isSelected ? 'ring-1 ring-blue-500 ring-offset-1 ring-offset-transparent' : 'hover:ring-1 hover:ring-zinc-400 hover:ring-dashed'}`}
+      className={`group ${isEditing ? '' : 'select-none'} ${isSelected ? `ring-1 ${element.locked ? 'ring-amber-500' : 'ring-blue-500'} ring-offset-1 ring-offset-transparent` : 'hover:ring-1 hover:ring-zinc-400 hover:ring-dashed'}`}
       onMouseDown={handleMouseDown}
+      onDoubleClick={handleDoubleClick}
     >
       {/* Content */}
-      {element.type === 'text' ? (
-        <div style={cleanStyle} className="whitespace-pre-wrap p-2 leading-tight pointer-events-none">
+      {element.type === 'text' && isEditing ? (
+        <div
+          ref={editorRef}
+          contentEditable="plaintext-only"
+          suppressContentEditableWarning
+          spellCheck={false}
+          onBlur={commitEdit}
+          onKeyDown={handleEditorKeyDown}
+          style={{ ...cleanStyle, transform: flipTransform }}
+          className="whitespace-pre-wrap p-2 leading-tight outline-none cursor-text"
+        >
+          {element.content}
+        </div>
+      ) : element.type === 'text' ? (
+        <div style={{ ...cleanStyle, transform: flipTransform }} className="whitespace-pre-wrap p-2 leading-tight pointer-events-none">
           {element.content}
         </div>
+      ) : element.type === 'shape' && element.shape && shapeSize ? (
+        <ShapeGraphic shape={element.shape} width={shapeSize.width} height={shapeSize.height} style={{ transform: flipTransform }} />
       ) : (
-        <img
-          src={element.content}
-          alt={element.type}
-          crossOrigin="anonymous" 
-          className="pointer-events-none w-full h-auto block"
+        <ImageGraphic
+          element={element}
+          natural={naturalSize}
+          onLoad={setNaturalSize}
+          style={{ transform: flipTransform }}
+          className={isBrushing ? 'invisible' : ''}
+        />
+      )}
+
+      {isCropping && naturalSize && (
+        <CropOverlay
+          element={element}
+          natural={naturalSize}
+          style={{ transform: flipTransform }}
+          onUpdate={(updates) => onUpdate(element.id, updates)}
+          onTransactionStart={onTransactionStart}
+          onTransactionEnd={onTransactionEnd}
+        />
+      )}
+
+      {/* Brush editing shows the raw pixels being painted, without adjustments */}
+      {isBrushing && brush && (
+        <MaskBrushOverlay
+          content={element.content}
+          original={element.source ?? element.content}
+          mode={brush.mode}
+          size={brush.size}
+          crop={element.crop}
+          style={{ transform: flipTransform }}
+          onCommit={(content) => onUpdate(element.id, { content, source: element.source ?? element.content })}
         />
       )}
 
       {/* Resize Anchors (Only when selected) */}
-      {isSelected && (
+      {isSelected && !isMultiSelected && !element.locked && !isEditing && !isBrushing && !isCropping && (
         <>
           {/* Bottom Right Anchor */}
           <div
             className="absolute -bottom-1.5 -right-1.5 w-4 h-4 bg-white border-2 border-blue-500 rounded-full cursor-nwse-resize z-50 shadow-sm hover:scale-110 transition-transform"
-            onMouseDown={handleResizeStart}
+            onMouseDown={handleResizeStart('scale')}
+          />
+          {/* Right Edge Anchor: sets a fixed-width text box */}
+          {element.type === 'text' && (
+            <div
+              className="absolute top-1/2 -right-1 -translate-y-1/2 w-2 h-6 bg-white border-2 border-blue-500 rounded-sm cursor-ew-resize z-50 shadow-sm"
+              onMouseDown={handleResizeStart('width')}
+              title="Drag to set the text box width"
+            />
+          )}
+          {/* Rotation Handle */}
+          <div className="absolute -top-8 left-1/2 -translate-x-1/2 w-px h-6 bg-blue-500 pointer-events-none" />
+          <div
+            className="absolute -top-10 left-1/2 -translate-x-1/2 w-4 h-4 bg-white border-2 border-blue-500 rounded-full cursor-grab z-50 shadow-sm hover:scale-110 transition-transform"
+            onMouseDown={handleRotateStart}
+            title="Drag to rotate (Shift snaps to 15°)"
           />
           {/* Helper label */}
           <div className="absolute -top-6 left-0 bg-blue-600 text-white text-[10px] px-1 rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap">
-            Drag to resize
+            {element.type === 'text' ? 'Drag to resize • Double-click to edit' : isImage ? 'Drag to resize • Double-click to crop' : 'Drag to resize'}
           </div>
         </>
       )}
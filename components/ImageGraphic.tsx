@@ -0,0 +1,72 @@
+import React from 'react';
+import { CanvasDimensions, DesignElement } from '../types';
+import { buildFilter, getTintOverlayStyle, hasAdjustments } from '../utils/adjustments';
+import { getCrop, getImageSize, getMaskPath } from '../utils/crop';
+
+interface ImageGraphicProps {
+  element: DesignElement;
+  natural: CanvasDimensions | null; // Known once the image has loaded
+  onLoad: (natural: CanvasDimensions) => void;
+  style?: React.CSSProperties;
+  className?: string;
+}
+
+// Logo and image content: crop, adjustments and mask, in the same order as the renderer
+export const ImageGraphic: React.FC<ImageGraphicProps> = ({ element, natural, onLoad, style, className = '' }) => {
+  const adjustments = hasAdjustments(element.adjustments) ? element.adjustments : null;
+  const handleLoad = (e: React.SyntheticEvent<HTMLImageElement>) =>
+    onLoad({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+  const tint = adjustments && adjustments.tintAmount > 0 && (
+    <div className="absolute inset-0" style={getTintOverlayStyle(element.content, adjustments, '100% 100%')} />
+  );
+
+  if (!element.crop && !element.mask) {
+    if (!adjustments) {
+      return (
+        <img
+          src={element.content}
+          alt={element.type}
+          crossOrigin="anonymous"
+          style={style}
+          className={`pointer-events-none w-full h-auto block ${className}`}
+          onLoad={handleLoad}
+        />
+      );
+    }
+    return (
+      <div className={`relative pointer-events-none ${className}`} style={{ ...style, filter: buildFilter(adjustments) }}>
+        <img src={element.content} alt={element.type} crossOrigin="anonymous" className="w-full h-auto block" onLoad={handleLoad} />
+        {tint}
+      </div>
+    );
+  }
+
+  // The full image is laid out behind a window the size of the crop
+  const crop = getCrop(element);
+  const size = natural ? getImageSize(element, natural) : null;
+  return (
+    <div
+      className={`relative overflow-hidden pointer-events-none ${className}`}
+      style={{
+        ...style,
+        width: size?.width,
+        aspectRatio: size ? `${size.width} / ${size.height}` : undefined,
+        filter: adjustments ? buildFilter(adjustments) : undefined,
+        clipPath: element.mask && size ? `path('${getMaskPath(element.mask, size.width, size.height)}')` : undefined,
+      }}
+    >
+      <div
+        className="absolute"
+        style={{
+          width: `${100 / crop.width}%`,
+          height: `${100 / crop.height}%`,
+          left: `${(-crop.x / crop.width) * 100}%`,
+          top: `${(-crop.y / crop.height) * 100}%`,
+        }}
+      >
+        <img src={element.content} alt={element.type} crossOrigin="anonymous" className="block w-full h-full max-w-none" onLoad={handleLoad} />
+        {tint}
+      </div>
+    </div>
+  );
+};
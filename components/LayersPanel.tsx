@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Eye, EyeOff, GripVertical, Group, Image as ImageIcon, Layers, Lock, Shapes, Type, Unlock } from 'lucide-react';
+import { DesignElement } from '../types';
+import { getElementLabel } from '../utils/helpers';
+
+interface LayersPanelProps {
+  elements: DesignElement[];
+  selectedIds: string[];
+  onSelect: (id: string, additive?: boolean) => void;
+  onUpdateElement: (id: string, updates: Partial<DesignElement>) => void;
+  onMove: (id: string, toIndex: number) => void;
+}
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  elements,
+  selectedIds,
+  onSelect,
+  onUpdateElement,
+  onMove,
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [nameValue, setNameValue] = useState("");
+
+  // Topmost layer first, like every other design tool
+  const layers = elements.map((el, index) => ({ el, index })).reverse();
+
+  const commitName = () => {
+    if (editingId) onUpdateElement(editingId, { name: nameValue.trim() || undefined });
+    setEditingId(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedId && dropIndex !== null) onMove(draggedId, dropIndex);
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <section className="space-y-3 p-5 bg-zinc-900 rounded-xl border border-zinc-800 shadow-sm">
+      <h2 className="text-lg font-semibold flex items-center gap-2 text-zinc-100">
+        <Layers className="w-4 h-4 text-sky-400" /> Layers
+      </h2>
+
+      <ul className="space-y-1" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
+        {layers.map(({ el, index }) => {
+          const isSelected = selectedIds.includes(el.id);
+          return (
+            <li
+              key={el.id}
+              draggable={editingId !== el.id}
+              onDragStart={() => setDraggedId(el.id)}
+              onDragOver={() => setDropIndex(index)}
+              onDragEnd={() => { setDraggedId(null); setDropIndex(null); }}
+              onClick={(e) => onSelect(el.id, e.shiftKey)}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-lg border text-xs cursor-pointer transition-colors ${
+                isSelected ? 'bg-sky-500/10 border-sky-500/50 text-zinc-100' : 'border-transparent hover:bg-zinc-800 text-zinc-300'
+              } ${draggedId && dropIndex === index && draggedId !== el.id ? 'ring-1 ring-sky-400' : ''} ${el.hidden ? 'opacity-50' : ''}`}
+            >
+              <GripVertical className="w-3.5 h-3.5 text-zinc-600 cursor-grab shrink-0" />
+              {el.type === 'text' ? <Type className="w-3.5 h-3.5 text-zinc-500 shrink-0" />
+                : el.type === 'shape' ? <Shapes className="w-3.5 h-3.5 text-zinc-500 shrink-0" />
+                : <ImageIcon className="w-3.5 h-3.5 text-zinc-500 shrink-0" />}
+
+              {editingId === el.id ? (
+                <input
+                  autoFocus
+                  value={nameValue}
+                  onChange={(e) => setNameValue(e.target.value)}
+                  onBlur={commitName}
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitName();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded px-1.5 py-0.5 outline-none focus:ring-1 focus:ring-sky-500"
+                />
+              ) : (
+                <span
+                  className="flex-1 truncate"
+                  title="Double-click to rename"
+                  onDoubleClick={(e) => {
+                    e.stopPropagation();
+                    setEditingId(el.id);
+                    setNameValue(getElementLabel(el));
+                  }}
+                >
+                  {getElementLabel(el)}
+                </span>
+              )}
+
+              {el.groupId && <Group className="w-3 h-3 text-sky-400/70 shrink-0" aria-label="Grouped" />}
+
+              <div className="flex items-center gap-0.5 shrink-0" onClick={(e) => e.stopPropagation()}>
+                <button
+                  onClick={() => onMove(el.id, index + 1)}
+                  disabled={index === elements.length - 1}
+                  className="p-1 rounded hover:bg-zinc-700 text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Bring Forward"
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onMove(el.id, index - 1)}
+                  disabled={index === 0}
+                  className="p-1 rounded hover:bg-zinc-700 text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Send Backward"
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onUpdateElement(el.id, { hidden: !el.hidden })}
+                  className="p-1 rounded hover:bg-zinc-700 text-zinc-500 hover:text-white"
+                  title={el.hidden ? 'Show' : 'Hide'}
+                >
+                  {el.hidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                </button>
+                <button
+                  onClick={() => onUpdateElement(el.id, { locked: !el.locked })}
+                  className={`p-1 rounded hover:bg-zinc-700 hover:text-white ${el.locked ? 'text-amber-400' : 'text-zinc-500'}`}
+                  title={el.locked ? 'Unlock' : 'Lock'}
+                >
+                  {el.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
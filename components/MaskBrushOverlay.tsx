@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageCrop, Position } from '../types';
+import { loadImage } from '../utils/renderer';
+import { BrushMode, paintBrushDab } from '../utils/cutout';
+import { FULL_CROP } from '../utils/crop';
+
+interface MaskBrushOverlayProps {
+  content: string;
+  original: string; // Restore paints pixels back from this image
+  mode: BrushMode;
+  size: number; // Brush diameter in screen pixels
+  crop?: ImageCrop; // The full image is painted; the element box shows the cropped window
+  style?: React.CSSProperties;
+  onCommit: (content: string) => void;
+}
+
+// Paints on a working copy of the image that covers the element. The parent's rotation and
+// flip transforms apply to it too, and `offsetX/Y` are already in its local coordinates.
+export const MaskBrushOverlay: React.FC<MaskBrushOverlayProps> = ({ content, original, mode, size, crop = FULL_CROP, style, onCommit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const originalRef = useRef<HTMLImageElement | null>(null);
+  const lastPointRef = useRef<Position | null>(null);
+  const [cursor, setCursor] = useState<Position | null>(null);
+  const [isPainting, setIsPainting] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+    Promise.all([loadImage(content), loadImage(original)])
+      .then(([image, originalImage]) => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (isCancelled || !canvas || !ctx) return;
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        ctx.drawImage(image, 0, 0);
+        originalRef.current = originalImage;
+      })
+      .catch(error => console.error("Could not load image for brush editing:", error));
+    return () => { isCancelled = true; };
+  }, [content, original]);
+
+  // Screen pixels to image pixels
+  const getRatio = () => {
+    const canvas = canvasRef.current;
+    return canvas && canvas.clientWidth > 0 ? canvas.width / canvas.clientWidth : 1;
+  };
+
+  // Dabs are spaced along the stroke so fast moves still leave a continuous line
+  const paintTo = (point: Position) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const ratio = getRatio();
+    const radius = (size / 2) * ratio;
+    const from = lastPointRef.current ?? point;
+    const distance = Math.hypot(point.x - from.x, point.y - from.y) * ratio;
+    const steps = Math.max(1, Math.ceil(distance / Math.max(1, radius / 3)));
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      paintBrushDab(ctx, mode, originalRef.current, (from.x + (point.x - from.x) * t) * ratio, (from.y + (point.y - from.y) * t) * ratio, radius);
+    }
+    lastPointRef.current = point;
+  };
+
+  const finishStroke = () => {
+    if (!isPainting) return;
+    setIsPainting(false);
+    lastPointRef.current = null;
+    try {
+      onCommit(canvasRef.current!.toDataURL('image/png'));
+    } catch (error) {
+      // Images from hosts without CORS headers can't be read back
+      console.error("Brush edit failed:", error);
+      alert("This image can't be edited because its host doesn't allow it.");
+    }
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    setIsPainting(true);
+    lastPointRef.current = null;
+    paintTo({ x: e.nativeEvent.offsetX, y: e.nativeEvent.offsetY });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = { x: e.nativeEvent.offsetX, y: e.nativeEvent.offsetY };
+    setCursor(point);
+    if (isPainting) paintTo(point);
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 overflow-hidden" style={style}>
+      <div
+        className="absolute"
+        style={{
+          width: `${100 / crop.width}%`,
+          height: `${100 / crop.height}%`,
+          left: `${(-crop.x / crop.width) * 100}%`,
+          top: `${(-crop.y / crop.height) * 100}%`,
+        }}
+      >
+        <canvas
+          ref={canvasRef}
+          className="block w-full h-full cursor-none"
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={finishStroke}
+          onMouseLeave={() => { setCursor(null); finishStroke(); }}
+        />
+        {cursor && (
+          <div
+            className={`absolute rounded-full border pointer-events-none ${mode === 'erase' ? 'border-red-400 bg-red-400/10' : 'border-emerald-400 bg-emerald-400/10'}`}
+            style={{ left: cursor.x - size / 2, top: cursor.y - size / 2, width: size, height: size }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
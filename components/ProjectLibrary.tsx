@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Copy, FilePlus2, FolderOpen, Image as ImageIcon, Pencil, Trash2, X } from 'lucide-react';
+import { ProjectSummary } from '../types';
+
+interface ProjectLibraryProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  projects,
+  currentProjectId,
+  onOpen,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onNew,
+  onClose,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) onRename(renamingId, renameValue.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-[85vh] flex flex-col bg-zinc-900 rounded-xl border border-zinc-800 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <h2 className="text-lg font-semibold flex items-center gap-2 text-zinc-100">
+            <FolderOpen className="w-4 h-4 text-indigo-400" /> Project Library
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onNew}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs transition-colors"
+            >
+              <FilePlus2 className="w-4 h-4" /> New Project
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-auto p-5">
+          {projects.length === 0 ? (
+            <p className="text-sm text-zinc-500 text-center py-12">
+              No saved projects yet. Your work is saved here automatically as you design.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {projects.map(project => (
+                <div
+                  key={project.id}
+                  className={`group rounded-lg border overflow-hidden bg-zinc-950 ${project.id === currentProjectId ? 'border-indigo-500' : 'border-zinc-800 hover:border-zinc-600'}`}
+                >
+                  <button
+                    onClick={() => onOpen(project.id)}
+                    className="w-full aspect-video bg-zinc-800 flex items-center justify-center overflow-hidden"
+                    title="Open project"
+                  >
+                    {project.thumbnail ? (
+                      <img src={project.thumbnail} alt={project.name} className="w-full h-full object-contain" />
+                    ) : (
+                      <ImageIcon className="w-6 h-6 text-zinc-600" />
+                    )}
+                  </button>
+
+                  <div className="p-3 space-y-1">
+                    {renamingId === project.id ? (
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm outline-none focus:ring-1 focus:ring-indigo-500"
+                      />
+                    ) : (
+                      <div className="text-sm font-medium text-zinc-200 truncate" title={project.name}>{project.name}</div>
+                    )}
+                    <div className="text-[10px] text-zinc-500">
+                      {project.dimensions.width}×{project.dimensions.height} • {formatDate(project.updatedAt)}
+                    </div>
+
+                    <div className="flex items-center gap-1 pt-1">
+                      <button onClick={() => startRename(project)} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors" title="Rename">
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => onDuplicate(project.id)} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors" title="Duplicate">
+                        <Copy className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project.id);
+                        }}
+                        className="p-1.5 rounded hover:bg-red-500/20 text-zinc-400 hover:text-red-400 transition-colors ml-auto"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
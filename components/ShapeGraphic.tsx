@@ -0,0 +1,38 @@
+import React, { useId } from 'react';
+import { ShapeProps } from '../types';
+import { getGradientLine, getShapePath } from '../utils/shapes';
+
+interface ShapeGraphicProps {
+  shape: ShapeProps;
+  width: number;
+  height: number;
+  style?: React.CSSProperties;
+}
+
+// Same path as the renderer and SVG export, so the editor matches every output
+export const ShapeGraphic: React.FC<ShapeGraphicProps> = ({ shape, width, height, style }) => {
+  const gradientId = `shape-gradient-${useId().replace(/:/g, '')}`;
+  const gradient = shape.kind !== 'line' ? shape.gradient : undefined;
+  const line = gradient ? getGradientLine(gradient.angle, width, height) : null;
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} overflow="visible" style={style} className="block pointer-events-none">
+      {gradient && line && (
+        <defs>
+          <linearGradient id={gradientId} gradientUnits="userSpaceOnUse" {...line}>
+            <stop offset="0" stopColor={gradient.from} />
+            <stop offset="1" stopColor={gradient.to} />
+          </linearGradient>
+        </defs>
+      )}
+      <path
+        d={getShapePath(shape, width, height)}
+        fill={shape.kind === 'line' ? 'none' : gradient ? `url(#${gradientId})` : shape.fill}
+        stroke={shape.strokeWidth > 0 ? shape.stroke : 'none'}
+        strokeWidth={shape.strokeWidth}
+        strokeLinejoin="round"
+        opacity={shape.opacity ?? 1}
+      />
+    </svg>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { SHORTCUTS, formatCombo } from '../utils/shortcuts';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-zinc-900 rounded-xl border border-zinc-800 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <h2 className="text-lg font-semibold flex items-center gap-2 text-zinc-100">
+            <Keyboard className="w-4 h-4 text-indigo-400" /> Keyboard Shortcuts
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <ul className="p-5 space-y-2 max-h-[70vh] overflow-auto">
+          {SHORTCUTS.map(shortcut => (
+            <li key={shortcut.action} className="flex items-start justify-between gap-4 text-sm">
+              <span className="text-zinc-300">{shortcut.description}</span>
+              <span className="flex flex-wrap justify-end gap-1.5">
+                {shortcut.combos.map(combo => (
+                  <span key={combo} className="flex gap-0.5">
+                    {formatCombo(combo).map((key, i) => (
+                      <kbd key={i} className="min-w-[1.5rem] text-center px-1.5 py-0.5 rounded bg-zinc-800 border border-zinc-700 text-[11px] font-mono text-zinc-200">
+                        {key}
+                      </kbd>
+                    ))}
+                  </span>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <p className="px-5 pb-5 text-[11px] text-zinc-500">
+          Shortcuts are paused while you type in a text field. Hold Alt while dragging to disable snapping.
+        </p>
+      </div>
+    </div>
+  );
+};
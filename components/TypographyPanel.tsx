@@ -0,0 +1,166 @@
+import React from 'react';
+import { AlignCenter, AlignLeft, AlignRight, Italic } from 'lucide-react';
+import { CustomFont, DesignElement } from '../types';
+import { customFontValue } from '../utils/fonts';
+import { TEXT_LINE_HEIGHT } from '../utils/renderer';
+import {
+  FONT_FAMILIES,
+  FONT_WEIGHTS,
+  MIN_TEXT_BOX_WIDTH,
+  TEXT_TRANSFORMS,
+  getLetterSpacing,
+  getLineHeight,
+  getTextAlign,
+} from '../utils/typography';
+
+interface TypographyPanelProps {
+  element: DesignElement;
+  customFonts: CustomFont[];
+  // `coalesceKey` merges continuous edits (typing a number, dragging a color) into one undo step
+  onStyleChange: (updates: React.CSSProperties, coalesceKey?: string) => void;
+  onToggleFixedWidth: () => void;
+  onWidthChange: (width: number) => void;
+}
+
+const ALIGN_OPTIONS = [
+  { value: 'left', icon: AlignLeft },
+  { value: 'center', icon: AlignCenter },
+  { value: 'right', icon: AlignRight },
+] as const;
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 outline-none focus:ring-1 focus:ring-emerald-500";
+
+export const TypographyPanel: React.FC<TypographyPanelProps> = ({ element, customFonts, onStyleChange, onToggleFixedWidth, onWidthChange }) => {
+  const style = element.style || {};
+  const align = getTextAlign(style);
+  const family = String(style.fontFamily || '');
+  // One entry per uploaded family, however many weights were uploaded for it
+  const uploadedFamilies = Array.from(new Set(customFonts.map(font => font.family)));
+  const isKnownFamily = FONT_FAMILIES.some(f => f.value === family)
+    || uploadedFamilies.some(name => customFontValue(name) === family);
+  const weight = style.fontWeight === 'bold' ? '700' : String(style.fontWeight || '400');
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={family}
+        onChange={(e) => onStyleChange({ fontFamily: e.target.value || undefined })}
+        className={inputClass}
+        style={{ fontFamily: family || undefined }}
+        title="Font family"
+      >
+        {!family && <option value="">Default</option>}
+        {/* AI suggestions may name a family outside the list; keep it selectable */}
+        {family && !isKnownFamily && <option value={family}>{family}</option>}
+        {uploadedFamilies.length > 0 && (
+          <optgroup label="Uploaded">
+            {uploadedFamilies.map(name => (
+              <option key={name} value={customFontValue(name)} style={{ fontFamily: customFontValue(name) }}>{name}</option>
+            ))}
+          </optgroup>
+        )}
+        <optgroup label="Built-in">
+          {FONT_FAMILIES.map(font => (
+            <option key={font.value} value={font.value} style={{ fontFamily: font.value }}>{font.label}</option>
+          ))}
+        </optgroup>
+      </select>
+
+      <div className="grid grid-cols-[1fr_1fr_auto_auto] gap-2">
+        <div className="relative">
+          <span className="absolute left-2 top-1/2 -translate-y-1/2 text-zinc-500 text-[10px] font-mono">Sz</span>
+          <input
+            type="number"
+            min={1}
+            value={parseInt(style.fontSize as string || "64")}
+            onChange={(e) => onStyleChange({ fontSize: `${e.target.value}px` }, 'fontSize')}
+            className={`${inputClass} pl-7`}
+            title="Font size (px)"
+          />
+        </div>
+        <select value={weight} onChange={(e) => onStyleChange({ fontWeight: e.target.value })} className={inputClass} title="Font weight">
+          {FONT_WEIGHTS.map(w => <option key={w.value} value={w.value}>{w.label}</option>)}
+        </select>
+        <button
+          onClick={() => onStyleChange({ fontStyle: style.fontStyle === 'italic' ? undefined : 'italic' })}
+          className={`px-2 rounded-lg border transition-colors ${style.fontStyle === 'italic' ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-zinc-950 border-zinc-800 text-zinc-400 hover:text-white'}`}
+          title="Italic"
+        >
+          <Italic className="w-3.5 h-3.5" />
+        </button>
+        <input
+          type="color"
+          value={/^#[0-9a-f]{6}$/i.test(String(style.color)) ? String(style.color) : '#ffffff'}
+          onChange={(e) => onStyleChange({ color: e.target.value }, 'color')}
+          className="w-8 h-full min-h-7 bg-transparent border border-zinc-800 rounded cursor-pointer"
+          title="Text color"
+        />
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-2">
+        <div className="flex rounded-lg border border-zinc-800 overflow-hidden">
+          {ALIGN_OPTIONS.map(({ value, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => onStyleChange({ textAlign: value === 'left' ? undefined : value })}
+              className={`px-2 py-1.5 transition-colors ${align === value ? 'bg-emerald-500/10 text-emerald-400' : 'bg-zinc-950 text-zinc-400 hover:text-white'}`}
+              title={`Align ${value}`}
+            >
+              <Icon className="w-3.5 h-3.5" />
+            </button>
+          ))}
+        </div>
+        <div className="relative">
+          <span className="absolute left-2 top-1/2 -translate-y-1/2 text-zinc-500 text-[10px] font-mono">LS</span>
+          <input
+            type="number"
+            step={0.5}
+            value={getLetterSpacing(style)}
+            onChange={(e) => onStyleChange({ letterSpacing: Number(e.target.value) ? `${e.target.value}px` : undefined }, 'letterSpacing')}
+            className={`${inputClass} pl-7`}
+            title="Letter spacing (px)"
+          />
+        </div>
+        <div className="relative">
+          <span className="absolute left-2 top-1/2 -translate-y-1/2 text-zinc-500 text-[10px] font-mono">LH</span>
+          <input
+            type="number"
+            step={0.05}
+            min={0.5}
+            value={getLineHeight(style, TEXT_LINE_HEIGHT)}
+            onChange={(e) => onStyleChange({ lineHeight: Number(e.target.value) > 0 ? Number(e.target.value) : undefined }, 'lineHeight')}
+            className={`${inputClass} pl-7`}
+            title="Line height (× font size)"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={String(style.textTransform || 'none')}
+          onChange={(e) => onStyleChange({ textTransform: e.target.value === 'none' ? undefined : e.target.value as React.CSSProperties['textTransform'] })}
+          className={inputClass}
+          title="Text transform"
+        >
+          {TEXT_TRANSFORMS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+        </select>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1.5 text-xs text-zinc-400 cursor-pointer whitespace-nowrap" title="Wrap text inside a box of fixed width">
+            <input type="checkbox" checked={element.width !== undefined} onChange={onToggleFixedWidth} className="accent-emerald-500" />
+            Box
+          </label>
+          {element.width !== undefined && (
+            <input
+              type="number"
+              min={MIN_TEXT_BOX_WIDTH}
+              value={Math.round(element.width)}
+              onChange={(e) => onWidthChange(Math.max(MIN_TEXT_BOX_WIDTH, Number(e.target.value)))}
+              className={inputClass}
+              title="Text box width (px)"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import { AIAnalysisResult } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { createMockProvider } from './mockAIProvider';
+
+// Everything the editor asks of an AI backend. Images go in as base64 (no data URL prefix)
+// and come back as data URLs; null means nothing usable was generated.
+export interface AIProvider {
+  generateDesign: (imageBase64: string, userPrompt: string, styleImageBase64?: string | null) => Promise<AIAnalysisResult>;
+  generateSticker: (prompt: string) => Promise<string | null>;
+  generateTypographyImage: (prompt: string, styleImageBase64?: string | null) => Promise<string | null>;
+}
+
+export type AIProviderId = 'gemini' | 'mock';
+
+export interface AISettings {
+  provider: AIProviderId;
+  designModel: string; // Writes the headline and picks the styling
+  imageModel: string; // Draws stickers and typography art
+}
+
+export interface AIProviderInfo {
+  id: AIProviderId;
+  label: string;
+  description: string;
+  designModels: string[]; // The first entry is the default
+  imageModels: string[];
+  create: (settings: AISettings) => AIProvider;
+}
+
+export const AI_PROVIDERS: AIProviderInfo[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Needs GEMINI_API_KEY in the environment.',
+    designModels: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    imageModels: ['gemini-2.5-flash-image'],
+    create: createGeminiProvider,
+  },
+  {
+    id: 'mock',
+    label: 'Local mock',
+    description: 'Works offline. The same prompt and images always give the same result, with placeholder artwork.',
+    designModels: ['mock-design'],
+    imageModels: ['mock-placeholder'],
+    create: createMockProvider,
+  },
+];
+
+export const getProviderInfo = (id: AIProviderId): AIProviderInfo =>
+  AI_PROVIDERS.find(p => p.id === id) ?? AI_PROVIDERS[0];
+
+export const getDefaultAISettings = (provider: AIProviderId): AISettings => {
+  const info = getProviderInfo(provider);
+  return { provider: info.id, designModel: info.designModels[0], imageModel: info.imageModels[0] };
+};
+
+export const createAIProvider = (settings: AISettings): AIProvider => getProviderInfo(settings.provider).create(settings);
+
+// --- Persistence ---
+// Settings belong to the browser, not the project, so they live outside the project store
+const SETTINGS_KEY = 'canvasai-composer:ai-settings';
+
+export const loadAISettings = (): AISettings => {
+  // Without an API key the mock is the only provider that can answer
+  const fallback = getDefaultAISettings(process.env.API_KEY ? 'gemini' : 'mock');
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return fallback;
+    const parsed = JSON.parse(stored) as Partial<AISettings>;
+    const info = AI_PROVIDERS.find(p => p.id === parsed.provider);
+    if (!info) return fallback;
+    return {
+      provider: info.id,
+      designModel: parsed.designModel && info.designModels.includes(parsed.designModel) ? parsed.designModel : info.designModels[0],
+      imageModel: parsed.imageModel && info.imageModels.includes(parsed.imageModel) ? parsed.imageModel : info.imageModels[0],
+    };
+  } catch (error) {
+    console.error("Could not read AI settings:", error);
+    return fallback;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Could not save AI settings:", error);
+  }
+};
@@ -1,7 +1,13 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
 import { AIAnalysisResult } from "../types";
+import type { AIProvider, AISettings } from "./aiProvider";
 
-const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use, so the app loads (and the mock provider works) without an API key
+let genAI: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!genAI) genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return genAI;
+};
 
 const designSchema: Schema = {
   type: Type.OBJECT,
@@ -40,7 +46,8 @@ const designSchema: Schema = {
   required: ["textContent", "textColor", "fontFamily", "textShadow", "suggestedTextPosition", "suggestedLogoPosition", "fontReasoning"],
 };
 
-export const generateDesign = async (
+const generateDesign = async (
+  model: string,
   imageBase64: string,
   userPrompt: string,
   styleImageBase64?: string | null
@@ -72,8 +79,8 @@ export const generateDesign = async (
 
     parts.push({ text: promptText });
 
-    const response = await genAI.models.generateContent({
-      model: "gemini-2.5-flash",
+    const response = await getClient().models.generateContent({
+      model,
       contents: { parts },
       config: {
         responseMimeType: "application/json",
@@ -101,10 +108,10 @@ export const generateDesign = async (
   }
 };
 
-export const generateSticker = async (prompt: string): Promise<string | null> => {
+const generateSticker = async (model: string, prompt: string): Promise<string | null> => {
   try {
-    const response = await genAI.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+    const response = await getClient().models.generateContent({
+      model,
       contents: {
         parts: [
           {
@@ -126,7 +133,7 @@ export const generateSticker = async (prompt: string): Promise<string | null> =>
   }
 };
 
-export const generateTypographyImage = async (prompt: string, styleImageBase64?: string | null): Promise<string | null> => {
+const generateTypographyImage = async (model: string, prompt: string, styleImageBase64?: string | null): Promise<string | null> => {
   try {
     const parts: any[] = [];
     
@@ -142,8 +149,8 @@ export const generateTypographyImage = async (prompt: string, styleImageBase64?:
 
     parts.push({ text: textPrompt });
 
-    const response = await genAI.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+    const response = await getClient().models.generateContent({
+      model,
       contents: { parts },
     });
 
@@ -157,4 +164,10 @@ export const generateTypographyImage = async (prompt: string, styleImageBase64?:
     console.error("Gemini Typography Error:", error);
     return null;
   }
-};
\ No newline at end of file
+};
+
+export const createGeminiProvider = ({ designModel, imageModel }: AISettings): AIProvider => ({
+  generateDesign: (imageBase64, userPrompt, styleImageBase64) => generateDesign(designModel, imageBase64, userPrompt, styleImageBase64),
+  generateSticker: (prompt) => generateSticker(imageModel, prompt),
+  generateTypographyImage: (prompt, styleImageBase64) => generateTypographyImage(imageModel, prompt, styleImageBase64),
+});
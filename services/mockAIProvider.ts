@@ -0,0 +1,97 @@
+import { AIAnalysisResult, AnchorPosition } from "../types";
+import { escapeXml, hashString } from "../utils/helpers";
+import type { AIProvider, AISettings } from "./aiProvider";
+
+// An offline stand-in for a real model. Every choice is picked from a hash of the inputs,
+// so the same prompt and images always give the same design and the same placeholder art.
+
+const FONTS = ['Great Vibes, cursive', 'Oswald, sans-serif', 'Inter, sans-serif', 'Playfair Display, serif', 'Roboto Mono, monospace'];
+
+const PALETTES: { text: string; shadow: string; accent: string }[] = [
+  { text: '#ffffff', shadow: '2px 2px 6px rgba(0,0,0,0.7)', accent: '#6366f1' },
+  { text: '#111827', shadow: 'none', accent: '#f59e0b' },
+  { text: '#fde047', shadow: '0px 2px 4px rgba(0,0,0,0.6)', accent: '#ef4444' },
+  { text: '#f472b6', shadow: '0px 2px 4px rgba(0,0,0,0.5)', accent: '#14b8a6' },
+  { text: '#38bdf8', shadow: '1px 1px 3px rgba(0,0,0,0.6)', accent: '#8b5cf6' },
+];
+
+const HEADLINES = ['{text}', '{text} Starts Here', 'Discover {text}', '{text}, Reimagined'];
+
+// Text goes in the top or bottom band, and the logo in a corner away from it
+const TEXT_POSITIONS: AnchorPosition[] = ['top-center', 'center', 'bottom-center', 'top-left', 'bottom-left'];
+const LOGO_POSITIONS: AnchorPosition[] = ['bottom-right', 'top-right', 'bottom-left', 'top-left'];
+
+// Picks stay stable per input: byte `i` of the hash chooses from `n` options
+const createPicker = async (...inputs: (string | null | undefined)[]) => {
+  const hash = await hashString(inputs.map(input => input ?? '').join('\u0000'));
+  return (i: number, n: number) => parseInt(hash.slice(i * 2, i * 2 + 2), 16) % n;
+};
+
+const toTitleCase = (prompt: string, maxWords: number) => prompt
+  .trim()
+  .split(/\s+/)
+  .filter(Boolean)
+  .slice(0, maxWords)
+  .map(word => word[0].toUpperCase() + word.slice(1))
+  .join(' ');
+
+// Base64 so the result behaves like any other generated image (hashing, ZIP export)
+const svgToDataUrl = (svg: string) => {
+  let binary = '';
+  new TextEncoder().encode(svg).forEach(byte => { binary += String.fromCharCode(byte); });
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+const generateDesign = async (model: string, imageBase64: string, userPrompt: string, styleImageBase64?: string | null): Promise<AIAnalysisResult> => {
+  const pick = await createPicker(model, userPrompt, imageBase64, styleImageBase64);
+  const text = toTitleCase(userPrompt, 5) || 'New Design';
+  const font = FONTS[pick(1, FONTS.length)];
+  const palette = PALETTES[pick(2, PALETTES.length)];
+  const textPosition = TEXT_POSITIONS[pick(3, TEXT_POSITIONS.length)];
+  const logoPositions = LOGO_POSITIONS.filter(p => p !== textPosition);
+
+  return {
+    textContent: HEADLINES[pick(0, HEADLINES.length)].replace('{text}', text),
+    textColor: palette.text,
+    fontFamily: font,
+    textShadow: palette.shadow,
+    fontReasoning: `Mock design: ${font.split(',')[0]} in ${palette.text}, picked from the prompt so it can be reproduced.`,
+    suggestedTextPosition: textPosition,
+    suggestedLogoPosition: logoPositions[pick(4, logoPositions.length)],
+  };
+};
+
+// A badge with the prompt's initials on solid white, like the real stickers
+const generateSticker = async (model: string, prompt: string): Promise<string | null> => {
+  const pick = await createPicker(model, prompt);
+  const { accent } = PALETTES[pick(0, PALETTES.length)];
+  const initials = toTitleCase(prompt, 2).split(' ').map(word => word[0] ?? '').join('') || '?';
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">`
+    + `<rect width="512" height="512" fill="#ffffff"/>`
+    + `<circle cx="256" cy="256" r="200" fill="${accent}" stroke="#18181b" stroke-width="16"/>`
+    + `<text x="256" y="256" dy="0.35em" text-anchor="middle" font-family="sans-serif" font-weight="bold" font-size="160" fill="#ffffff">${escapeXml(initials)}</text>`
+    + `</svg>`;
+  return svgToDataUrl(svg);
+};
+
+// The prompt set in one of the design fonts with a gradient fill, on solid white
+const generateTypographyImage = async (model: string, prompt: string, styleImageBase64?: string | null): Promise<string | null> => {
+  const pick = await createPicker(model, prompt, styleImageBase64);
+  const text = prompt.trim().slice(0, 40) || 'Text';
+  const font = FONTS[pick(0, FONTS.length)];
+  const from = PALETTES[pick(1, PALETTES.length)].accent;
+  const to = PALETTES[pick(2, PALETTES.length)].accent;
+  const fontSize = Math.round(Math.min(120, 900 / (0.6 * text.length)));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="384" viewBox="0 0 1024 384">`
+    + `<defs><linearGradient id="fill" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>`
+    + `<rect width="1024" height="384" fill="#ffffff"/>`
+    + `<text x="512" y="192" dy="0.35em" text-anchor="middle" font-family="${escapeXml(font)}" font-weight="bold" font-size="${fontSize}" fill="url(#fill)" stroke="#18181b" stroke-width="3">${escapeXml(text)}</text>`
+    + `</svg>`;
+  return svgToDataUrl(svg);
+};
+
+export const createMockProvider = ({ designModel, imageModel }: AISettings): AIProvider => ({
+  generateDesign: (imageBase64, userPrompt, styleImageBase64) => generateDesign(designModel, imageBase64, userPrompt, styleImageBase64),
+  generateSticker: (prompt) => generateSticker(imageModel, prompt),
+  generateTypographyImage: (prompt, styleImageBase64) => generateTypographyImage(imageModel, prompt, styleImageBase64),
+});
@@ -0,0 +1,185 @@
+import { ProjectDocument, ProjectSummary } from '../types';
+import { migrateDocument, packDocument, unpackDocument, PROJECT_SCHEMA_VERSION } from '../utils/project';
+
+const DB_NAME = 'canvasai-composer';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const ASSETS_STORE = 'assets';
+
+// Projects hold the packed document (assets referenced by hash), assets hold the data URLs.
+interface StoredProject extends ProjectSummary {
+  version?: number; // Schema version of `document`; entries from before versioning are v1
+  document: ProjectDocument;
+  assetHashes: string[];
+}
+
+interface StoredAsset {
+  hash: string;
+  data: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+          db.createObjectStore(ASSETS_STORE, { keyPath: 'hash' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toSummary = ({ document, assetHashes, version, ...summary }: StoredProject): ProjectSummary => summary;
+
+const getStoredProject = async (id: string): Promise<StoredProject> => {
+  const db = await openDb();
+  const project = await requestToPromise<StoredProject | undefined>(
+    db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(id)
+  );
+  if (!project) throw new Error(`Project ${id} not found`);
+  return project;
+};
+
+// Drops assets that no stored project references anymore
+const collectUnusedAssets = async () => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, ASSETS_STORE], 'readwrite');
+  const projects = await requestToPromise<StoredProject[]>(tx.objectStore(PROJECTS_STORE).getAll());
+  const assetKeys = await requestToPromise(tx.objectStore(ASSETS_STORE).getAllKeys());
+
+  const inUse = new Set(projects.flatMap(p => p.assetHashes));
+  assetKeys.forEach(key => {
+    if (!inUse.has(key as string)) tx.objectStore(ASSETS_STORE).delete(key);
+  });
+  await transactionDone(tx);
+};
+
+// --- Public API ---
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const projects = await requestToPromise<StoredProject[]>(
+    db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll()
+  );
+  return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<{ summary: ProjectSummary; document: ProjectDocument }> => {
+  const project = await getStoredProject(id);
+  const db = await openDb();
+  const store = db.transaction(ASSETS_STORE).objectStore(ASSETS_STORE);
+
+  const assets: Record<string, string> = {};
+  await Promise.all(project.assetHashes.map(async hash => {
+    const asset = await requestToPromise<StoredAsset | undefined>(store.get(hash));
+    if (asset) assets[hash] = asset.data;
+  }));
+
+  const document = migrateDocument(project.document, project.version ?? 1);
+  return { summary: toSummary(project), document: unpackDocument(document, assets) };
+};
+
+export const saveProject = async (
+  id: string,
+  name: string,
+  doc: ProjectDocument,
+  thumbnail: string | null
+): Promise<ProjectSummary> => {
+  const { document, assets } = await packDocument(doc);
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, ASSETS_STORE], 'readwrite');
+  const projects = tx.objectStore(PROJECTS_STORE);
+  const assetStore = tx.objectStore(ASSETS_STORE);
+
+  // Only write assets we haven't stored before; identical content shares one record
+  const assetHashes = Object.keys(assets);
+  const existing = await Promise.all(assetHashes.map(hash => requestToPromise(assetStore.getKey(hash))));
+  assetHashes.forEach((hash, i) => {
+    if (existing[i] === undefined) assetStore.put({ hash, data: assets[hash] } as StoredAsset);
+  });
+
+  const previous = await requestToPromise<StoredProject | undefined>(projects.get(id));
+  const now = Date.now();
+  const project: StoredProject = {
+    id,
+    name,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+    dimensions: doc.dimensions,
+    thumbnail: thumbnail ?? previous?.thumbnail ?? null,
+    version: PROJECT_SCHEMA_VERSION,
+    document,
+    assetHashes,
+  };
+  projects.put(project);
+  await transactionDone(tx);
+
+  // A save can orphan assets that were replaced (e.g. a new background)
+  if (previous && previous.assetHashes.some(hash => !assets[hash])) {
+    await collectUnusedAssets();
+  }
+
+  return toSummary(project);
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getStoredProject(id);
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put({ ...project, name, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+  const project = await getStoredProject(id);
+  const now = Date.now();
+  const copy: StoredProject = {
+    ...project,
+    id: crypto.randomUUID(),
+    name: `${project.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(copy);
+  await transactionDone(tx);
+  return toSummary(copy);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  await transactionDone(tx);
+  await collectUnusedAssets();
+};
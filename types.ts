@@ -12,23 +12,170 @@ export interface Position {
   y: number;
 }
 
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ShapeKind = 'rectangle' | 'ellipse' | 'line' | 'polygon' | 'star';
+
+export interface ShapeGradient {
+  from: string;
+  to: string;
+  angle: number; // Degrees, 0 = left to right, 90 = top to bottom
+}
+
+export interface ShapeProps {
+  kind: ShapeKind;
+  fill: string; // CSS color, or 'none'
+  gradient?: ShapeGradient; // Replaces `fill` when set
+  stroke: string;
+  strokeWidth: number;
+  cornerRadius?: number; // Rectangles only
+  sides?: number; // Polygon corners or star points
+  innerRadius?: number; // Star inner radius as a fraction of the outer one
+  opacity?: number; // 0-1
+}
+
 export interface DesignElement {
   id: string;
-  type: 'text' | 'logo' | 'image'; // Added 'image' for AI objects
-  content: string; // Text content or Image URL
+  type: 'text' | 'logo' | 'image' | 'shape'; // Added 'image' for AI objects
+  content: string; // Text content or Image URL (empty for shapes)
   x: number;
   y: number;
-  width?: number; // For images/logos
-  height?: number; 
+  width?: number; // For images/logos/shapes; on text, a fixed-width box the text wraps in
+  height?: number; // For shapes; images keep the aspect ratio of their crop
   style?: React.CSSProperties; // For text styling
+  name?: string; // User-given layer name
+  hidden?: boolean;
+  locked?: boolean; // Locked layers can be selected but not dragged or resized
+  rotation?: number; // Degrees clockwise around the element's center
+  flipX?: boolean;
+  flipY?: boolean;
+  groupId?: string; // Elements sharing a groupId are selected and moved as one unit
+  shape?: ShapeProps; // Geometry and paint for `type: 'shape'`
+  slot?: string; // Image slot: CSV column whose URL replaces this image during data merge
+  adjustments?: ImageAdjustments; // Logos and images only; applied when drawing, the source stays untouched
+  source?: string; // Logos and images only: the asset before background removal or brush edits
+  crop?: ImageCrop; // Logos and images only; the full asset is kept so the crop can change later
+  mask?: MaskShape; // Logos and images only; clips the cropped image to a shape
+}
+
+// Visible part of an image, as fractions (0-1) of the asset's natural size
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type MaskShape = 'circle' | 'rounded' | 'hexagon';
+
+// Non-destructive color adjustments. Values are CSS filter amounts: brightness, contrast and
+// saturation are percentages where 100 is unchanged; grayscale and sepia are 0-100.
+// The tint is painted over the image's opaque pixels before the filters run.
+export interface ImageAdjustments {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  hue: number; // Degrees
+  blur: number; // Canvas pixels
+  grayscale: number;
+  sepia: number;
+  tintColor: string;
+  tintAmount: number; // 0-100
 }
 
+// The nine canvas regions used for AI placement suggestions and anchored re-layout
+export type AnchorPosition = 'top-left' | 'top-center' | 'top-right' | 'center-left' | 'center' | 'center-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
 export interface AIAnalysisResult {
   textContent: string; // The generated text
   textColor: string;
   fontFamily: string;
   textShadow: string;
   fontReasoning: string;
-  suggestedTextPosition: 'top-left' | 'top-center' | 'top-right' | 'center-left' | 'center' | 'center-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
-  suggestedLogoPosition: 'top-left' | 'top-center' | 'top-right' | 'center-left' | 'center' | 'center-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
-}
\ No newline at end of file
+  suggestedTextPosition: AnchorPosition;
+  suggestedLogoPosition: AnchorPosition;
+}
+
+export type PhysicalUnit = 'px' | 'mm' | 'in';
+
+// Print setup. Canvas pixels are printed at `dpi`; bleed and safe margin are
+// stored in canvas pixels and only converted to `unit` for display.
+export interface PrintSettings {
+  unit: PhysicalUnit;
+  dpi: number;
+  bleed: number; // Extra background around the trim edge, cut off after printing
+  safeMargin: number; // Inset from the trim edge that important content should stay inside
+  showSafeArea: boolean;
+}
+
+// Uploaded font file, registered with the FontFace API under `family`.
+// Several files can share a family (e.g. Regular and Bold).
+export interface CustomFont {
+  id: string;
+  family: string;
+  weight: string; // CSS font-weight descriptor, e.g. '400'
+  style: 'normal' | 'italic';
+  fileName: string;
+  data: string; // Data URL of the font file
+}
+
+export type BackgroundFit = 'cover' | 'contain' | 'stretch';
+
+// Placement of the background image inside the canvas
+export interface BackgroundFrame {
+  fit: BackgroundFit;
+  zoom: number; // Multiplier on the fitted size
+  offsetX: number; // Canvas pixels from the canvas center to the image center
+  offsetY: number;
+  rotation: number; // Degrees clockwise
+  flipX: boolean;
+  flipY: boolean;
+}
+
+// Painted behind the background image, or on its own when there is no image.
+// Gradient angles follow ShapeGradient: 0 runs left to right, 90 top to bottom.
+export type BackgroundFill =
+  | { type: 'solid'; color: string }
+  | { type: 'linear'; from: string; to: string; angle: number }
+  | { type: 'radial'; from: string; to: string }; // Circle from the center to the farthest corner
+
+// Snapshot of everything the editor needs to restore a design
+export interface ProjectDocument {
+  dimensions: CanvasDimensions;
+  elements: DesignElement[];
+  background: string | null;
+  backgroundAdjustments: ImageAdjustments | null;
+  backgroundFrame: BackgroundFrame;
+  backgroundFill: BackgroundFill | null;
+  logo: string | null;
+  styleReference: string | null;
+  analysis: AIAnalysisResult | null;
+  print: PrintSettings;
+  fonts: CustomFont[];
+}
+
+// On-disk project format. Embedded images live in `assets` and are referenced
+// from the document as `asset:<hash>`; remote URLs are kept as-is.
+export interface ProjectFile {
+  format: 'canvasai-project';
+  version: number;
+  name: string;
+  savedAt: string;
+  document: ProjectDocument;
+  assets: Record<string, string>;
+}
+
+// Library listing entry for a project stored in the browser
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  dimensions: CanvasDimensions;
+  thumbnail: string | null;
+}
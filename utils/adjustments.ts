@@ -0,0 +1,62 @@
+import React from 'react';
+import { ImageAdjustments } from '../types';
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  hue: 0,
+  blur: 0,
+  grayscale: 0,
+  sepia: 0,
+  tintColor: '#f97316',
+  tintAmount: 0,
+};
+
+export type AdjustmentKey = Exclude<keyof ImageAdjustments, 'tintColor'>;
+
+export const ADJUSTMENT_SLIDERS: { key: AdjustmentKey; label: string; min: number; max: number; unit: string }[] = [
+  { key: 'brightness', label: 'Brightness', min: 0, max: 200, unit: '%' },
+  { key: 'contrast', label: 'Contrast', min: 0, max: 200, unit: '%' },
+  { key: 'saturation', label: 'Saturation', min: 0, max: 200, unit: '%' },
+  { key: 'hue', label: 'Hue', min: -180, max: 180, unit: '°' },
+  { key: 'blur', label: 'Blur', min: 0, max: 40, unit: 'px' },
+  { key: 'grayscale', label: 'Grayscale', min: 0, max: 100, unit: '%' },
+  { key: 'sepia', label: 'Sepia', min: 0, max: 100, unit: '%' },
+  { key: 'tintAmount', label: 'Tint', min: 0, max: 100, unit: '%' },
+];
+
+export const hasAdjustments = (adjustments?: ImageAdjustments | null): adjustments is ImageAdjustments =>
+  !!adjustments && ADJUSTMENT_SLIDERS.some(({ key }) => adjustments[key] !== DEFAULT_ADJUSTMENTS[key]);
+
+// CSS filter shared by the editor preview and canvas `ctx.filter`, so exports match exactly.
+// Canvas filters ignore the context transform, hence the blur scale.
+export const buildFilter = (adjustments: ImageAdjustments, blurScale: number = 1): string => {
+  const parts = [
+    adjustments.brightness !== 100 ? `brightness(${adjustments.brightness}%)` : '',
+    adjustments.contrast !== 100 ? `contrast(${adjustments.contrast}%)` : '',
+    adjustments.saturation !== 100 ? `saturate(${adjustments.saturation}%)` : '',
+    adjustments.hue ? `hue-rotate(${adjustments.hue}deg)` : '',
+    adjustments.grayscale ? `grayscale(${adjustments.grayscale}%)` : '',
+    adjustments.sepia ? `sepia(${adjustments.sepia}%)` : '',
+    adjustments.blur ? `blur(${adjustments.blur * blurScale}px)` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : 'none';
+};
+
+// Room a blur needs around the image so its soft edge isn't clipped
+export const getFilterPadding = (adjustments: ImageAdjustments) => Math.ceil(adjustments.blur * 3);
+
+// Editor preview of the tint: a color layer masked by the image's own alpha
+export const getTintOverlayStyle = (src: string, adjustments: ImageAdjustments, size: 'cover' | '100% 100%'): React.CSSProperties => ({
+  backgroundColor: adjustments.tintColor,
+  opacity: adjustments.tintAmount / 100,
+  maskImage: `url(${src})`,
+  maskSize: size,
+  maskPosition: 'center',
+  maskRepeat: 'no-repeat',
+  WebkitMaskImage: `url(${src})`,
+  WebkitMaskSize: size,
+  WebkitMaskPosition: 'center',
+  WebkitMaskRepeat: 'no-repeat',
+});
@@ -0,0 +1,113 @@
+import { CanvasDimensions, Position, Rect } from '../types';
+
+export const SNAP_THRESHOLD = 6;
+
+export interface SnapLines {
+  vertical: number[]; // x positions
+  horizontal: number[]; // y positions
+}
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Bounding boxes (relative to `container`) of rendered elements, including rotation
+export const measureElementRects = (container: HTMLElement, ids?: string[]): Record<string, Rect> => {
+  const containerRect = container.getBoundingClientRect();
+  const rects: Record<string, Rect> = {};
+  container.querySelectorAll<HTMLElement>('[data-element-id]').forEach(node => {
+    const id = node.dataset.elementId as string;
+    if (ids && !ids.includes(id)) return;
+    const r = node.getBoundingClientRect();
+    rects[id] = { x: r.left - containerRect.left, y: r.top - containerRect.top, width: r.width, height: r.height };
+  });
+  return rects;
+};
+
+export const unionRect = (rects: Rect[]): Rect | null => {
+  if (rects.length === 0) return null;
+  const left = Math.min(...rects.map(r => r.x));
+  const top = Math.min(...rects.map(r => r.y));
+  const right = Math.max(...rects.map(r => r.x + r.width));
+  const bottom = Math.max(...rects.map(r => r.y + r.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// --- Snapping ---
+
+// Canvas edges and center plus the edges and centers of every other element
+export const getSnapLines = (canvas: CanvasDimensions, others: Rect[]): SnapLines => ({
+  vertical: [0, canvas.width / 2, canvas.width, ...others.flatMap(r => [r.x, r.x + r.width / 2, r.x + r.width])],
+  horizontal: [0, canvas.height / 2, canvas.height, ...others.flatMap(r => [r.y, r.y + r.height / 2, r.y + r.height])],
+});
+
+const findSnap = (start: number, size: number, lines: number[], threshold: number) => {
+  let best: { offset: number; line: number } | null = null;
+  [start, start + size / 2, start + size].forEach(edge => {
+    lines.forEach(line => {
+      const offset = line - edge;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, line };
+      }
+    });
+  });
+  return best as { offset: number; line: number } | null;
+};
+
+// Returns how far to nudge `rect` so its nearest edge or center lands on a line, and the guides to show
+export const snapRect = (rect: Rect, lines: SnapLines, threshold: number = SNAP_THRESHOLD): { offset: Position; guides: SnapLines } => {
+  const snapX = findSnap(rect.x, rect.width, lines.vertical, threshold);
+  const snapY = findSnap(rect.y, rect.height, lines.horizontal, threshold);
+  return {
+    offset: { x: snapX?.offset || 0, y: snapY?.offset || 0 },
+    guides: {
+      vertical: snapX ? [snapX.line] : [],
+      horizontal: snapY ? [snapY.line] : [],
+    },
+  };
+};
+
+// --- Align & Distribute ---
+
+// Offsets that line every rect up against the selection's bounding box
+export const alignRects = (rects: Record<string, Rect>, mode: AlignMode): Record<string, Position> => {
+  const bounds = unionRect(Object.values(rects));
+  const offsets: Record<string, Position> = {};
+  if (!bounds) return offsets;
+
+  Object.entries(rects).forEach(([id, r]) => {
+    let x = 0;
+    let y = 0;
+    if (mode === 'left') x = bounds.x - r.x;
+    if (mode === 'center') x = bounds.x + bounds.width / 2 - (r.x + r.width / 2);
+    if (mode === 'right') x = bounds.x + bounds.width - (r.x + r.width);
+    if (mode === 'top') y = bounds.y - r.y;
+    if (mode === 'middle') y = bounds.y + bounds.height / 2 - (r.y + r.height / 2);
+    if (mode === 'bottom') y = bounds.y + bounds.height - (r.y + r.height);
+    offsets[id] = { x, y };
+  });
+  return offsets;
+};
+
+// Offsets that leave equal gaps between rects, keeping the outermost two in place
+export const distributeRects = (rects: Record<string, Rect>, axis: DistributeAxis): Record<string, Position> => {
+  const entries = Object.entries(rects);
+  const offsets: Record<string, Position> = {};
+  if (entries.length < 3) return offsets;
+
+  const pos = axis === 'horizontal' ? 'x' : 'y';
+  const size = axis === 'horizontal' ? 'width' : 'height';
+  const sorted = [...entries].sort(([, a], [, b]) => a[pos] - b[pos]);
+
+  const first = sorted[0][1];
+  const last = sorted[sorted.length - 1][1];
+  const totalSize = sorted.reduce((sum, [, r]) => sum + r[size], 0);
+  const gap = (last[pos] + last[size] - first[pos] - totalSize) / (sorted.length - 1);
+
+  let cursor = first[pos];
+  sorted.forEach(([id, r]) => {
+    const delta = cursor - r[pos];
+    offsets[id] = axis === 'horizontal' ? { x: delta, y: 0 } : { x: 0, y: delta };
+    cursor += r[size] + gap;
+  });
+  return offsets;
+};
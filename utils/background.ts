@@ -0,0 +1,111 @@
+import { BackgroundFill, BackgroundFrame, CanvasDimensions, Rect } from '../types';
+import { getGradientLine } from './shapes';
+
+export const DEFAULT_BACKGROUND_FRAME: BackgroundFrame = {
+  fit: 'cover',
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+};
+
+export const MIN_BACKGROUND_ZOOM = 0.1;
+export const MAX_BACKGROUND_ZOOM = 5;
+
+export const BACKGROUND_FITS: { value: BackgroundFrame['fit']; label: string }[] = [
+  { value: 'cover', label: 'Cover' },
+  { value: 'contain', label: 'Contain' },
+  { value: 'stretch', label: 'Stretch' },
+];
+
+export const DEFAULT_BACKGROUND_FILLS: Record<BackgroundFill['type'], BackgroundFill> = {
+  solid: { type: 'solid', color: '#18181b' },
+  linear: { type: 'linear', from: '#6366f1', to: '#ec4899', angle: 90 },
+  radial: { type: 'radial', from: '#fde68a', to: '#b45309' },
+};
+
+export interface BackgroundPlacement {
+  cx: number; // Image center, relative to the box's top-left corner
+  cy: number;
+  width: number; // Unrotated size
+  height: number;
+}
+
+// Where the image lands in a width x height box: fitted, zoomed, then moved by the offset.
+// Rotation and flips are applied around (cx, cy) by the caller.
+export const getBackgroundPlacement = (
+  image: CanvasDimensions,
+  box: CanvasDimensions,
+  frame: BackgroundFrame
+): BackgroundPlacement => {
+  let width = box.width;
+  let height = box.height;
+  if (frame.fit !== 'stretch') {
+    const fitScale = frame.fit === 'cover'
+      ? Math.max(box.width / image.width, box.height / image.height)
+      : Math.min(box.width / image.width, box.height / image.height);
+    width = image.width * fitScale;
+    height = image.height * fitScale;
+  }
+  return {
+    cx: box.width / 2 + frame.offsetX,
+    cy: box.height / 2 + frame.offsetY,
+    width: width * frame.zoom,
+    height: height * frame.zoom,
+  };
+};
+
+// Keeps the framing when the canvas changes size: offsets follow the canvas proportionally
+export const scaleBackgroundFrame = (frame: BackgroundFrame, from: CanvasDimensions, to: CanvasDimensions): BackgroundFrame => ({
+  ...frame,
+  offsetX: frame.offsetX * (to.width / from.width),
+  offsetY: frame.offsetY * (to.height / from.height),
+});
+
+// CSS transform for the placed image; matches the canvas renderer's order (rotate, then flip)
+export const getBackgroundTransform = (frame: BackgroundFrame): string | undefined => {
+  if (!frame.rotation && !frame.flipX && !frame.flipY) return undefined;
+  return `rotate(${frame.rotation}deg) scale(${frame.flipX ? -1 : 1}, ${frame.flipY ? -1 : 1})`;
+};
+
+// --- Fills ---
+
+// Editor preview of a fill. Gradient angles are converted from our convention (0 = left to right)
+// to CSS (0deg = bottom to top).
+export const getFillCss = (fill: BackgroundFill): string => {
+  if (fill.type === 'solid') return fill.color;
+  if (fill.type === 'linear') return `linear-gradient(${fill.angle + 90}deg, ${fill.from}, ${fill.to})`;
+  return `radial-gradient(circle farthest-corner at center, ${fill.from}, ${fill.to})`;
+};
+
+export const getRadialRadius = (width: number, height: number) => Math.hypot(width / 2, height / 2);
+
+// Paints the fill over the given box, with the same geometry as getFillCss
+// The gradient is laid out over the box; `area` (default: the box) is what gets painted,
+// so a print bleed continues the gradient's end colors past the trim edge
+export const paintFill = (
+  ctx: CanvasRenderingContext2D,
+  fill: BackgroundFill,
+  x: number, y: number, width: number, height: number,
+  area: Rect = { x, y, width, height }
+) => {
+  if (fill.type === 'solid') {
+    ctx.fillStyle = fill.color;
+  } else if (fill.type === 'linear') {
+    const line = getGradientLine(fill.angle, width, height);
+    const gradient = ctx.createLinearGradient(x + line.x1, y + line.y1, x + line.x2, y + line.y2);
+    gradient.addColorStop(0, fill.from);
+    gradient.addColorStop(1, fill.to);
+    ctx.fillStyle = gradient;
+  } else {
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+    const gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, getRadialRadius(width, height));
+    gradient.addColorStop(0, fill.from);
+    gradient.addColorStop(1, fill.to);
+    ctx.fillStyle = gradient;
+  }
+  ctx.fillRect(area.x, area.y, area.width, area.height);
+};
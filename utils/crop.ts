@@ -0,0 +1,96 @@
+import { CanvasDimensions, DesignElement, ImageCrop, MaskShape } from '../types';
+import { placeLocalRect } from './geometry';
+import { getShapePath } from './shapes';
+
+export const FULL_CROP: ImageCrop = { x: 0, y: 0, width: 1, height: 1 };
+export const MIN_CROP_SIZE = 10; // Canvas pixels
+
+export const CROP_ASPECTS: { label: string; value: number }[] = [
+  { label: '1:1', value: 1 },
+  { label: '4:5', value: 4 / 5 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '9:16', value: 9 / 16 },
+];
+
+export const MASK_SHAPES: { value: MaskShape; label: string }[] = [
+  { value: 'circle', label: 'Circle' },
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'hexagon', label: 'Hexagon' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export const getCrop = (el: DesignElement): ImageCrop => el.crop ?? FULL_CROP;
+
+const isFullCrop = (crop: ImageCrop) => crop.x <= 0 && crop.y <= 0 && crop.width >= 1 && crop.height >= 1;
+
+// On-canvas size of an image element: its width, and a height from the cropped aspect ratio
+export const getImageSize = (el: DesignElement, natural: CanvasDimensions): CanvasDimensions => {
+  const crop = getCrop(el);
+  const width = el.width || natural.width * crop.width;
+  return { width, height: width * (crop.height * natural.height) / (crop.width * natural.width) };
+};
+
+// The crop in natural pixels, as a drawImage() source rectangle
+export const getCropSourceRect = (el: DesignElement, natural: CanvasDimensions) => {
+  const crop = getCrop(el);
+  return {
+    x: crop.x * natural.width,
+    y: crop.y * natural.height,
+    width: crop.width * natural.width,
+    height: crop.height * natural.height,
+  };
+};
+
+// Element changes that show `crop` while the full image stays where it is on the canvas,
+// so cropping never moves or rescales the picture itself
+export const getCropUpdates = (el: DesignElement, natural: CanvasDimensions, crop: ImageCrop): Partial<DesignElement> => {
+  const current = getCrop(el);
+  const size = getImageSize(el, natural);
+  const fullWidth = size.width / current.width;
+  const fullHeight = size.height / current.height;
+
+  const width = crop.width * fullWidth;
+  const height = crop.height * fullHeight;
+  // Where the new window sits inside the current one; flips mirror the content inside the box
+  let x = (crop.x - current.x) * fullWidth;
+  let y = (crop.y - current.y) * fullHeight;
+  if (el.flipX) x = size.width - (x + width);
+  if (el.flipY) y = size.height - (y + height);
+
+  return {
+    crop: isFullCrop(crop) ? undefined : crop,
+    width,
+    ...placeLocalRect(el.x, el.y, size.width, size.height, { x, y, width, height }, el.rotation || 0),
+  };
+};
+
+// A crop with the given on-screen aspect ratio (width / height). It keeps the current
+// crop's area and center where possible and always stays inside the image.
+export const fitCropToAspect = (crop: ImageCrop, aspect: number, natural: CanvasDimensions): ImageCrop => {
+  const area = crop.width * natural.width * crop.height * natural.height;
+  let width = Math.sqrt(area * aspect);
+  let height = width / aspect;
+  const fit = Math.min(1, natural.width / width, natural.height / height);
+  width = (width * fit) / natural.width;
+  height = (height * fit) / natural.height;
+
+  const cx = crop.x + crop.width / 2;
+  const cy = crop.y + crop.height / 2;
+  return {
+    x: clamp(cx - width / 2, 0, 1 - width),
+    y: clamp(cy - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+};
+
+// Clip path for a mask in a width x height box, built from the shape geometry so the
+// editor, the canvas renderer and the SVG export cut exactly the same outline
+export const getMaskPath = (mask: MaskShape, width: number, height: number): string => {
+  const base = { fill: 'none', stroke: 'none', strokeWidth: 0 };
+  if (mask === 'circle') return getShapePath({ ...base, kind: 'ellipse' }, width, height);
+  if (mask === 'hexagon') return getShapePath({ ...base, kind: 'polygon', sides: 6 }, width, height);
+  return getShapePath({ ...base, kind: 'rectangle', cornerRadius: Math.min(width, height) * 0.15 }, width, height);
+};
@@ -0,0 +1,196 @@
+import { loadImage } from './renderer';
+
+export type BrushMode = 'erase' | 'restore';
+
+export interface CutoutOptions {
+  tolerance: number; // Max per-channel difference from the backdrop color (0-255)
+  feather: number; // Width in pixels of the soft edge around the subject
+}
+
+export const DEFAULT_CUTOUT_OPTIONS: CutoutOptions = { tolerance: 40, feather: 1 };
+export const MAX_CUTOUT_TOLERANCE = 128;
+export const MAX_CUTOUT_FEATHER = 10;
+export const DEFAULT_BRUSH_SIZE = 24;
+
+// Pixels this transparent already count as backdrop, so the fill passes through them
+const TRANSPARENT_ALPHA = 16;
+
+// --- Background Detection ---
+
+// Most common color along the image border. Colors are bucketed so JPEG noise doesn't split
+// the vote; the result is the average of the winning bucket. Null if the border is transparent.
+const getBorderColor = (data: Uint8ClampedArray, width: number, height: number): [number, number, number] | null => {
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  const visit = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i + 3] < TRANSPARENT_ALPHA) return;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x, 0);
+    visit(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    visit(0, y);
+    visit(width - 1, y);
+  }
+
+  let best: { count: number; r: number; g: number; b: number } | null = null;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.count > best.count) best = bucket;
+  }
+  if (!best) return null;
+  const { count, r, g, b } = best;
+  return [r / count, g / count, b / count];
+};
+
+const colorDifference = (data: Uint8ClampedArray, i: number, color: [number, number, number]) =>
+  Math.max(Math.abs(data[i] - color[0]), Math.abs(data[i + 1] - color[1]), Math.abs(data[i + 2] - color[2]));
+
+// Flood-fills from every border pixel: a pixel is backdrop only if it is close to the backdrop
+// color AND connected to the border, so similar colors inside the subject are kept.
+const findBackground = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  color: [number, number, number],
+  tolerance: number
+): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  const tryAdd = (p: number) => {
+    if (mask[p]) return;
+    const i = p * 4;
+    if (data[i + 3] >= TRANSPARENT_ALPHA && colorDifference(data, i, color) >= tolerance) return;
+    mask[p] = 1;
+    queue[tail++] = p;
+  };
+
+  for (let x = 0; x < width; x++) {
+    tryAdd(x);
+    tryAdd((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    tryAdd(y * width);
+    tryAdd(y * width + width - 1);
+  }
+
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    if (x > 0) tryAdd(p - 1);
+    if (x < width - 1) tryAdd(p + 1);
+    if (p >= width) tryAdd(p - width);
+    if (p < width * (height - 1)) tryAdd(p + width);
+  }
+  return mask;
+};
+
+// Approximate distance from each pixel to the nearest backdrop pixel (two-pass chamfer),
+// capped at `cap` since only the edge band matters
+const distanceToBackground = (mask: Uint8Array, width: number, height: number, cap: number): Float32Array => {
+  const dist = new Float32Array(width * height);
+  for (let p = 0; p < dist.length; p++) dist[p] = mask[p] ? 0 : cap;
+
+  const relax = (p: number, q: number, step: number) => {
+    if (dist[q] + step < dist[p]) dist[p] = dist[q] + step;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (x > 0) relax(p, p - 1, 1);
+      if (y > 0) {
+        relax(p, p - width, 1);
+        if (x > 0) relax(p, p - width - 1, Math.SQRT2);
+        if (x < width - 1) relax(p, p - width + 1, Math.SQRT2);
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const p = y * width + x;
+      if (x < width - 1) relax(p, p + 1, 1);
+      if (y < height - 1) {
+        relax(p, p + width, 1);
+        if (x < width - 1) relax(p, p + width + 1, Math.SQRT2);
+        if (x > 0) relax(p, p + width - 1, Math.SQRT2);
+      }
+    }
+  }
+  return dist;
+};
+
+// Clears the backdrop in place and softens the subject's edge
+export const applyCutout = (data: Uint8ClampedArray, width: number, height: number, options: CutoutOptions) => {
+  const color = getBorderColor(data, width, height);
+  if (!color) return;
+  const { tolerance, feather } = options;
+  const mask = findBackground(data, width, height, color, tolerance);
+  const band = feather + 1;
+  const dist = distanceToBackground(mask, width, height, band + 1);
+
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    if (mask[p]) {
+      data[i + 3] = 0;
+      continue;
+    }
+    const d = dist[p];
+    if (d > band) continue;
+    let factor = Math.min(1, d / band);
+    // Pixels touching the backdrop are usually a blend of both; the closer to the backdrop
+    // color, the more transparent they become (anti-aliasing)
+    if (d < 1.5) {
+      factor *= Math.min(1, 0.5 + (colorDifference(data, i, color) - tolerance) / (2 * Math.max(1, tolerance)));
+    }
+    data[i + 3] = Math.round(data[i + 3] * Math.max(0, factor));
+  }
+};
+
+// Removes a flat backdrop (e.g. the white behind AI stickers) and returns a PNG data URL.
+// Throws if the image can't be loaded or read (hosts without CORS headers); callers tell the user.
+export const removeBackground = async (src: string, options: CutoutOptions = DEFAULT_CUTOUT_OPTIONS): Promise<string> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(img, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyCutout(imageData.data, canvas.width, canvas.height, options);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// --- Brush ---
+
+// One round brush dab at (x, y) in image pixels: erase clears it, restore copies the original back
+export const paintBrushDab = (
+  ctx: CanvasRenderingContext2D,
+  mode: BrushMode,
+  original: CanvasImageSource | null,
+  x: number, y: number, radius: number
+) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  if (mode === 'erase') {
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.fill();
+  } else if (original) {
+    ctx.clip();
+    ctx.clearRect(x - radius, y - radius, radius * 2, radius * 2);
+    ctx.drawImage(original, 0, 0, ctx.canvas.width, ctx.canvas.height);
+  }
+  ctx.restore();
+};
@@ -0,0 +1,123 @@
+import { CustomFont } from '../types';
+import { fileToDataUrl } from './helpers';
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+const FONT_FORMATS: Record<string, string> = {
+  ttf: 'truetype',
+  otf: 'opentype',
+  woff: 'woff',
+  woff2: 'woff2',
+};
+
+// Weight keywords commonly found in font file names, longest first so "ExtraBold" wins over "Bold"
+const WEIGHT_KEYWORDS: [string, string][] = [
+  ['extralight', '200'],
+  ['ultralight', '200'],
+  ['extrabold', '800'],
+  ['ultrabold', '800'],
+  ['semibold', '600'],
+  ['demibold', '600'],
+  ['regular', '400'],
+  ['medium', '500'],
+  ['light', '300'],
+  ['black', '900'],
+  ['heavy', '900'],
+  ['thin', '100'],
+  ['bold', '700'],
+];
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+// "Montserrat-SemiBoldItalic.woff2" -> { family: "Montserrat", weight: "600", style: "italic" }
+export const parseFontFileName = (fileName: string): Pick<CustomFont, 'family' | 'weight' | 'style'> => {
+  let name = fileName.replace(/\.[^.]+$/, '');
+  let style: CustomFont['style'] = 'normal';
+  let weight = '400';
+
+  if (/italic|oblique/i.test(name)) {
+    style = 'italic';
+    name = name.replace(/italic|oblique/gi, '');
+  }
+  for (const [keyword, value] of WEIGHT_KEYWORDS) {
+    const pattern = new RegExp(`[-_ ]?${keyword}$`, 'i');
+    if (pattern.test(name)) {
+      weight = value;
+      name = name.replace(pattern, '');
+      break;
+    }
+  }
+
+  const family = name.replace(/[-_]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').trim();
+  return { family: family || 'Custom Font', weight, style };
+};
+
+// CSS font-family value for a custom font, quoted because uploaded names often contain spaces
+export const customFontValue = (family: string) => `'${family.replace(/'/g, '')}', sans-serif`;
+
+// @font-face rule with the font file inlined, for self-contained SVGs
+export const customFontFaceCss = (font: CustomFont) => {
+  const format = FONT_FORMATS[getExtension(font.fileName)];
+  return `@font-face { font-family: '${font.family.replace(/'/g, '')}'; src: url(${font.data})${format ? ` format('${format}')` : ''}; font-weight: ${font.weight}; font-style: ${font.style}; }`;
+};
+
+// --- Registration ---
+
+// FontFaces this app added to `document.fonts`, by CustomFont id
+const registeredFaces = new Map<string, FontFace>();
+
+const createFace = async (font: CustomFont): Promise<FontFace> => {
+  const face = new FontFace(font.family, `url(${font.data})`, { weight: font.weight, style: font.style });
+  await face.load();
+  return face;
+};
+
+// Reads an uploaded font file and checks that the browser can actually use it
+export const readFontFile = async (file: File): Promise<CustomFont> => {
+  if (!FONT_FORMATS[getExtension(file.name)]) {
+    throw new Error(`${file.name} is not a TTF, OTF, WOFF or WOFF2 font.`);
+  }
+  const font: CustomFont = {
+    id: `font-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    ...parseFontFileName(file.name),
+    fileName: file.name,
+    data: await fileToDataUrl(file),
+  };
+  try {
+    const face = await createFace(font);
+    document.fonts.add(face);
+    registeredFaces.set(font.id, face);
+  } catch {
+    throw new Error(`${file.name} could not be loaded as a font.`);
+  }
+  return font;
+};
+
+// Registers fonts that aren't in `document.fonts` yet and waits until they are loaded
+export const registerCustomFonts = async (fonts: CustomFont[]) => {
+  if (!document.fonts) return;
+  await Promise.all(fonts.filter(font => !registeredFaces.has(font.id)).map(async font => {
+    try {
+      const face = await createFace(font);
+      // Another call may have registered it while this one was loading
+      if (registeredFaces.has(font.id)) return;
+      document.fonts.add(face);
+      registeredFaces.set(font.id, face);
+    } catch (error) {
+      console.warn(`Could not load font ${font.fileName}:`, error);
+    }
+  }));
+};
+
+// Makes `document.fonts` match the project's fonts, also removing faces the project
+// no longer has (after undo, or when another project is opened)
+export const syncCustomFonts = async (fonts: CustomFont[]) => {
+  if (!document.fonts) return;
+  const ids = new Set(fonts.map(font => font.id));
+  registeredFaces.forEach((face, id) => {
+    if (ids.has(id)) return;
+    document.fonts.delete(face);
+    registeredFaces.delete(id);
+  });
+  await registerCustomFonts(fonts);
+};
@@ -0,0 +1,67 @@
+import { Position, Rect } from '../types';
+
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const normalizeAngle = (degrees: number) => {
+  const angle = degrees % 360;
+  return angle < 0 ? angle + 360 : angle;
+};
+
+// Rotates a vector by `degrees` (clockwise, matching CSS rotate())
+export const rotateVector = (v: Position, degrees: number): Position => {
+  const rad = toRadians(degrees);
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: v.x * cos - v.y * sin, y: v.x * sin + v.y * cos };
+};
+
+// Projects a screen-space delta onto an element's own (rotated) axes
+export const toLocalDelta = (delta: Position, degrees: number): Position => rotateVector(delta, -degrees);
+
+// Elements rotate around their center. When a box rotated by `degrees` changes
+// size, this returns the new top-left so its top-left corner stays put on screen.
+export const resizeAroundTopLeft = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  newWidth: number,
+  newHeight: number,
+  degrees: number
+): Position => {
+  const center = { x: x + width / 2, y: y + height / 2 };
+  const offset = rotateVector({ x: -width / 2, y: -height / 2 }, degrees);
+  const corner = { x: center.x + offset.x, y: center.y + offset.y };
+
+  const newOffset = rotateVector({ x: newWidth / 2, y: newHeight / 2 }, degrees);
+  return {
+    x: corner.x + newOffset.x - newWidth / 2,
+    y: corner.y + newOffset.y - newHeight / 2,
+  };
+};
+
+// New top-left for a box rotated by `degrees` so that it covers `rect`, which is given
+// in the current box's own unrotated coordinates (relative to its top-left corner)
+export const placeLocalRect = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  rect: Rect,
+  degrees: number
+): Position => {
+  const shift = rotateVector({
+    x: rect.x + rect.width / 2 - width / 2,
+    y: rect.y + rect.height / 2 - height / 2,
+  }, degrees);
+  return {
+    x: x + width / 2 + shift.x - rect.width / 2,
+    y: y + height / 2 + shift.y - rect.height / 2,
+  };
+};
+
+// Angle (degrees) from a center point to the pointer, 0 pointing straight up
+export const angleFromCenter = (center: Position, pointer: Position): number => {
+  const radians = Math.atan2(pointer.y - center.y, pointer.x - center.x);
+  return normalizeAngle((radians * 180) / Math.PI + 90);
+};
@@ -1,3 +1,6 @@
+import { DesignElement } from '../types';
+import { SHAPE_LABELS } from './shapes';
+
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -33,49 +36,38 @@ export const dataURLToBlob = (dataURL: string): Blob => {
   return new Blob([u8arr], { type: mime });
 };
 
-export const removeBackground = (base64Image: string): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.crossOrigin = "Anonymous";
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        resolve(base64Image);
-        return;
-      }
-      ctx.drawImage(img, 0, 0);
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-      
-      // Sample top-left pixel to determine background color
-      const bgR = data[0];
-      const bgG = data[1];
-      const bgB = data[2];
-      
-      // Tolerance for jpeg compression artifacts or slight gradients
-      const tolerance = 40;
+export const dataUrlToBase64 = (dataURL: string): string => {
+  return dataURL.split(',')[1] || '';
+};
 
-      for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
+export const hashString = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
 
-        if (
-          Math.abs(r - bgR) < tolerance &&
-          Math.abs(g - bgG) < tolerance &&
-          Math.abs(b - bgB) < tolerance
-        ) {
-          data[i + 3] = 0; // Set alpha to 0 (Transparent)
-        }
-      }
-      
-      ctx.putImageData(imageData, 0, 0);
-      resolve(canvas.toDataURL('image/png'));
-    };
-    img.onerror = () => resolve(base64Image);
-    img.src = base64Image;
-  });
-};
\ No newline at end of file
+export const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+export const getElementLabel = (el: DesignElement): string => {
+  if (el.name) return el.name;
+  if (el.type === 'text') return el.content.slice(0, 24) || 'Text';
+  if (el.type === 'shape') return el.shape ? SHAPE_LABELS[el.shape.kind] : 'Shape';
+  return el.type === 'logo' ? 'Logo' : 'Image';
+};
+
+// "Summer Sale!" -> "summer-sale-", safe for file and folder names
+export const toFileSlug = (value: string): string => value.trim().replace(/[^a-z0-9-_]+/gi, '-').toLowerCase();
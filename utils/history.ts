@@ -0,0 +1,157 @@
+import { useCallback, useRef, useState } from 'react';
+
+// Consecutive commands with the same coalesce key inside this window merge into one step
+export const COALESCE_WINDOW_MS = 1000;
+export const MAX_HISTORY_ENTRIES = 100;
+export const MAX_HISTORY_BYTES = 64 * 1024 * 1024;
+
+// Strings shorter than this are counted as part of the per-entry overhead
+const LARGE_STRING_LENGTH = 1024;
+const ENTRY_OVERHEAD_BYTES = 4 * 1024;
+
+export interface HistoryCommand<T> {
+  label: string;
+  state: T; // Editor state to go back to when this command is undone
+  coalesceKey?: string;
+  time: number;
+}
+
+export interface HistoryOptions {
+  coalesceKey?: string;
+}
+
+// Walks a snapshot for large strings (embedded images). Snapshots share them by
+// reference, so each one only costs memory once no matter how many commands hold it.
+const collectLargeStrings = (value: unknown, into: Set<string>) => {
+  if (typeof value === 'string') {
+    if (value.length >= LARGE_STRING_LENGTH) into.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectLargeStrings(item, into));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectLargeStrings(item, into));
+  }
+};
+
+const estimateBytes = <T>(commands: HistoryCommand<T>[]) => {
+  const strings = new Set<string>();
+  commands.forEach(command => collectLargeStrings(command.state, strings));
+  let bytes = commands.length * ENTRY_OVERHEAD_BYTES;
+  strings.forEach(str => { bytes += str.length * 2; });
+  return bytes;
+};
+
+const isSameState = <T extends object>(a: T, b: T) =>
+  (Object.keys(a) as (keyof T)[]).every(key => a[key] === b[key]);
+
+// Undo/redo over an immutable editor state. Every change is recorded as a command
+// holding the state it replaced. A transaction (one drag or resize gesture) folds
+// all changes made while it is open into one command, and typed edits that share
+// a coalesce key merge while the user keeps typing.
+export const useHistory = <T extends object>(present: T, restore: (state: T) => void) => {
+  const presentRef = useRef(present);
+  presentRef.current = present;
+  const restoreRef = useRef(restore);
+  restoreRef.current = restore;
+
+  const undoStack = useRef<HistoryCommand<T>[]>([]);
+  const redoStack = useRef<HistoryCommand<T>[]>([]);
+  // `redo` holds the redo stack from before the gesture, so a gesture that changes nothing keeps it
+  const transaction = useRef<{ depth: number; command: HistoryCommand<T> | null; redo: HistoryCommand<T>[] }>({ depth: 0, command: null, redo: [] });
+  const [, setVersion] = useState(0);
+  const notify = () => setVersion(v => v + 1);
+
+  // Drops the oldest commands once the stack exceeds its entry or memory budget
+  const trim = () => {
+    const stack = undoStack.current;
+    if (stack.length > MAX_HISTORY_ENTRIES) stack.splice(0, stack.length - MAX_HISTORY_ENTRIES);
+    while (stack.length > 1 && estimateBytes([...stack, ...redoStack.current]) > MAX_HISTORY_BYTES) {
+      stack.shift();
+    }
+  };
+
+  const record = useCallback((label: string, options: HistoryOptions = {}) => {
+    if (transaction.current.depth > 0) return;
+
+    const now = Date.now();
+    const last = undoStack.current[undoStack.current.length - 1];
+    if (
+      options.coalesceKey &&
+      last?.coalesceKey === options.coalesceKey &&
+      now - last.time < COALESCE_WINDOW_MS &&
+      redoStack.current.length === 0
+    ) {
+      last.time = now;
+      return;
+    }
+
+    undoStack.current.push({ label, state: presentRef.current, coalesceKey: options.coalesceKey, time: now });
+    redoStack.current = [];
+    trim();
+    notify();
+  }, []);
+
+  const beginTransaction = useCallback((label: string) => {
+    if (transaction.current.depth === 0) {
+      transaction.current.redo = redoStack.current;
+      record(label);
+      transaction.current.command = undoStack.current[undoStack.current.length - 1] || null;
+    }
+    transaction.current.depth += 1;
+  }, [record]);
+
+  const endTransaction = useCallback(() => {
+    if (transaction.current.depth === 0) return;
+    transaction.current.depth -= 1;
+    if (transaction.current.depth > 0) return;
+
+    // A gesture that changed nothing (e.g. clicking a handle) leaves no undo step
+    const { command, redo } = transaction.current;
+    transaction.current.command = null;
+    transaction.current.redo = [];
+    const stack = undoStack.current;
+    if (command && stack[stack.length - 1] === command && isSameState(command.state, presentRef.current)) {
+      stack.pop();
+      redoStack.current = redo;
+      notify();
+    }
+  }, []);
+
+  const undo = useCallback(() => {
+    const command = undoStack.current.pop();
+    if (!command) return;
+    redoStack.current.push({ ...command, state: presentRef.current, time: Date.now() });
+    restoreRef.current(command.state);
+    notify();
+  }, []);
+
+  const redo = useCallback(() => {
+    const command = redoStack.current.pop();
+    if (!command) return;
+    undoStack.current.push({ ...command, state: presentRef.current, coalesceKey: undefined, time: Date.now() });
+    restoreRef.current(command.state);
+    notify();
+  }, []);
+
+  const clear = useCallback(() => {
+    undoStack.current = [];
+    redoStack.current = [];
+    transaction.current = { depth: 0, command: null, redo: [] };
+    notify();
+  }, []);
+
+  const lastUndo = undoStack.current[undoStack.current.length - 1];
+  const lastRedo = redoStack.current[redoStack.current.length - 1];
+
+  return {
+    record,
+    beginTransaction,
+    endTransaction,
+    undo,
+    redo,
+    clear,
+    canUndo: !!lastUndo,
+    canRedo: !!lastRedo,
+    undoLabel: lastUndo?.label,
+    redoLabel: lastRedo?.label,
+  };
+};
@@ -0,0 +1,84 @@
+import { canvasToBlob } from './renderer';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ImageFormatInfo {
+  label: string;
+  mimeType: string;
+  extension: string;
+  lossy: boolean;
+  transparent: boolean;
+}
+
+export const IMAGE_FORMATS: Record<ImageFormat, ImageFormatInfo> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false, transparent: true },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true, transparent: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true, transparent: true },
+};
+
+export interface ImageExportSettings {
+  format: ImageFormat;
+  quality: number; // 0-1, lossy formats only
+  maxKb: number | null; // When set, search for the best quality that fits under this size
+}
+
+export interface EncodedImage {
+  blob: Blob;
+  format: ImageFormat;
+  quality: number | null;
+  fitsBudget: boolean;
+}
+
+export const DEFAULT_IMAGE_EXPORT: ImageExportSettings = { format: 'png', quality: 0.92, maxKb: null };
+
+const MIN_QUALITY = 0.05;
+const QUALITY_SEARCH_STEPS = 7; // Binary search resolution of roughly 1%
+
+const encode = (canvas: HTMLCanvasElement, format: ImageFormat, quality?: number) =>
+  canvasToBlob(canvas, IMAGE_FORMATS[format].mimeType, quality);
+
+// Overlay and isolated-selection downloads need alpha; JPEG has none, so they fall back to PNG
+export const resolveImageFormat = (format: ImageFormat, requireTransparency: boolean): ImageFormat =>
+  requireTransparency && !IMAGE_FORMATS[format].transparent ? 'png' : format;
+
+// Encodes at the chosen quality, or finds the highest quality under `maxKb`.
+// If even the lowest quality is too large, that smallest result is returned with fitsBudget = false.
+// Lossless formats have no quality to trade, so the size limit does not apply to them.
+// Browsers without an encoder for the format (Safari has none for WebP) fall back to PNG,
+// which the returned `format` reports.
+export const encodeImage = async (
+  canvas: HTMLCanvasElement,
+  settings: ImageExportSettings,
+  requireTransparency: boolean = false
+): Promise<EncodedImage> => {
+  const format = resolveImageFormat(settings.format, requireTransparency);
+  if (!IMAGE_FORMATS[format].lossy) {
+    return { blob: await encode(canvas, format), format, quality: null, fitsBudget: true };
+  }
+
+  // Start from the user's quality as the ceiling; most exports fit on the first try
+  const first = await encode(canvas, format, settings.quality);
+  // toBlob silently returns PNG for a type the browser cannot encode
+  if (first.type !== IMAGE_FORMATS[format].mimeType) return { blob: first, format: 'png', quality: null, fitsBudget: true };
+
+  const maxBytes = settings.maxKb ? settings.maxKb * 1024 : null;
+  if (!maxBytes || first.size <= maxBytes) return { blob: first, format, quality: settings.quality, fitsBudget: true };
+
+  let low = MIN_QUALITY;
+  let high = settings.quality;
+  let best: { blob: Blob; quality: number } | null = null;
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const blob = await encode(canvas, format, quality);
+    if (blob.size <= maxBytes) {
+      best = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  if (best) return { ...best, format, fitsBudget: true };
+
+  const smallest = await encode(canvas, format, MIN_QUALITY);
+  return { blob: smallest, format, quality: MIN_QUALITY, fitsBudget: smallest.size <= maxBytes };
+};
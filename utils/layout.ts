@@ -0,0 +1,171 @@
+import { AIAnalysisResult, AnchorPosition, CanvasDimensions, DesignElement, Position, PrintSettings, Rect } from '../types';
+import { unionRect } from './alignment';
+import { layoutText, parseFontSize } from './renderer';
+import { getLetterSpacing } from './typography';
+
+export interface CanvasPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  print?: Partial<PrintSettings>; // Print presets also switch the size inputs to physical units
+}
+
+export const CANVAS_PRESETS: CanvasPreset[] = [
+  { id: 'instagram-post', label: 'Instagram Post', width: 1080, height: 1080 },
+  { id: 'instagram-portrait', label: 'Instagram Portrait', width: 1080, height: 1350 },
+  { id: 'instagram-story', label: 'Instagram Story', width: 1080, height: 1920 },
+  { id: 'facebook-cover', label: 'Facebook Cover', width: 1640, height: 624 },
+  { id: 'youtube-thumbnail', label: 'YouTube Thumbnail', width: 1280, height: 720 },
+  { id: 'a4-portrait', label: 'A4 Portrait (300 DPI)', width: 2480, height: 3508, print: { unit: 'mm', dpi: 300 } },
+  { id: 'a4-landscape', label: 'A4 Landscape (300 DPI)', width: 3508, height: 2480, print: { unit: 'mm', dpi: 300 } },
+];
+
+export const findPreset = (dimensions: CanvasDimensions) =>
+  CANVAS_PRESETS.find(p => p.width === dimensions.width && p.height === dimensions.height);
+
+// Helper to convert named positions to coordinates
+export const getCoordinatesFromPosition = (
+  pos: string, 
+  canvasW: number, 
+  canvasH: number, 
+  itemW: number, 
+  itemH: number
+): Position => {
+  const padding = 50;
+  let x = padding;
+  let y = padding;
+
+  if (pos.includes('right')) x = canvasW - itemW - padding;
+  if (pos.includes('center') && !pos.startsWith('center')) x = (canvasW - itemW) / 2; // horizontal center
+  if (pos.startsWith('center')) {
+      y = (canvasH - itemH) / 2;
+      if(pos.includes('left')) x = padding;
+      if(pos.includes('right')) x = canvasW - itemW - padding;
+      if(pos === 'center') x = (canvasW - itemW) / 2;
+  }
+  
+  if (pos.includes('bottom')) y = canvasH - itemH - padding;
+  if (pos.includes('top')) y = padding;
+
+  return { x, y };
+};
+
+type AxisAnchor = 'start' | 'center' | 'end';
+
+const axisAnchor = (center: number, size: number): AxisAnchor =>
+  center < size / 3 ? 'start' : center > (size * 2) / 3 ? 'end' : 'center';
+
+// Which of the nine regions the rect's center falls into
+export const getAnchorPosition = (rect: Rect, canvas: CanvasDimensions): AnchorPosition => {
+  const h = axisAnchor(rect.x + rect.width / 2, canvas.width);
+  const v = axisAnchor(rect.y + rect.height / 2, canvas.height);
+  const vertical = v === 'start' ? 'top' : v === 'end' ? 'bottom' : 'center';
+  const horizontal = h === 'start' ? 'left' : h === 'end' ? 'right' : 'center';
+  if (vertical === 'center' && horizontal === 'center') return 'center';
+  return `${vertical}-${horizontal}` as AnchorPosition;
+};
+
+// New leading edge on one axis: margins to the anchored edge (or offset from the
+// center) follow the canvas stretch, while the element itself scales uniformly
+const placeOnAxis = (anchor: AxisAnchor, start: number, size: number, from: number, to: number, stretch: number, scale: number) => {
+  if (anchor === 'start') return start * stretch;
+  if (anchor === 'end') return to - (from - (start + size)) * stretch - size * scale;
+  return to / 2 + (start + size / 2 - from / 2) * stretch - (size * scale) / 2;
+};
+
+// Size changes that scale one element by `scale`; `rect` is its rendered box, used when it has no
+// stored size. Shared by canvas resizing and scaling a selection on the canvas.
+export const scaleElement = (el: DesignElement, rect: Rect | undefined, scale: number): Partial<DesignElement> => {
+  if (el.type === 'text') {
+    const style = { ...el.style, fontSize: `${Math.round(parseFontSize(el.style) * scale * 10) / 10}px` };
+    const letterSpacing = getLetterSpacing(el.style);
+    if (letterSpacing) style.letterSpacing = `${Math.round(letterSpacing * scale * 10) / 10}px`;
+    // A fixed-width box scales with its text (and spacing) so the line breaks stay the same
+    return el.width !== undefined ? { style, width: el.width * scale } : { style };
+  }
+  if (el.type === 'shape') {
+    return { width: (el.width ?? rect?.width ?? 0) * scale, height: (el.height ?? rect?.height ?? 0) * scale };
+  }
+  const width = el.width ?? rect?.width;
+  return width ? { width: width * scale } : {};
+};
+
+// Fits `elements` to a new canvas size. Each element (or whole group) is anchored to
+// the region it sits in, scaled by the smaller of the two axis ratios so nothing
+// distorts, and keeps its proportional distance from the anchored edges.
+// `rects` are the rendered bounding boxes on the current canvas.
+export const relayoutElements = (
+  elements: DesignElement[],
+  rects: Record<string, Rect>,
+  from: CanvasDimensions,
+  to: CanvasDimensions
+): DesignElement[] => {
+  const stretchX = to.width / from.width;
+  const stretchY = to.height / from.height;
+  const scale = Math.min(stretchX, stretchY);
+
+  // Grouped elements move as one unit around their shared bounding box
+  const unitRects: Record<string, Rect | null> = {};
+  const unitKey = (el: DesignElement) => el.groupId ?? el.id;
+  elements.forEach(el => {
+    const key = unitKey(el);
+    if (key in unitRects) return;
+    const members = elements.filter(other => unitKey(other) === key);
+    unitRects[key] = unionRect(members.map(m => rects[m.id]).filter(Boolean));
+  });
+
+  return elements.map(el => {
+    const unit = unitRects[unitKey(el)];
+    const resized = { ...el, ...scaleElement(el, rects[el.id], scale) };
+    if (!unit) return { ...resized, x: el.x * stretchX, y: el.y * stretchY };
+
+    const anchor = getAnchorPosition(unit, from);
+    const hAnchor: AxisAnchor = anchor.endsWith('left') ? 'start' : anchor.endsWith('right') ? 'end' : 'center';
+    const vAnchor: AxisAnchor = anchor.startsWith('top') ? 'start' : anchor.startsWith('bottom') ? 'end' : 'center';
+    const left = placeOnAxis(hAnchor, unit.x, unit.width, from.width, to.width, stretchX, scale);
+    const top = placeOnAxis(vAnchor, unit.y, unit.height, from.height, to.height, stretchY, scale);
+
+    // Scaling around the origin moves every point by `scale`; shift so the unit lands at left/top
+    return {
+      ...resized,
+      x: Math.round(el.x * scale + (left - unit.x * scale)),
+      y: Math.round(el.y * scale + (top - unit.y * scale)),
+    };
+  });
+};
+
+// Re-styles an existing layout for a new background from a fresh AI analysis: every text
+// element takes the suggested color and shadow, the headline (the AI's main text, or else
+// the first text element) moves to the suggested region and the logo follows its suggestion.
+// Copy, fonts and every other element stay as designed.
+export const applyAnalysisToElements = (
+  elements: DesignElement[],
+  result: AIAnalysisResult,
+  canvas: CanvasDimensions
+): DesignElement[] => {
+  const texts = elements.filter(el => el.type === 'text');
+  const headline = texts.find(el => el.id.startsWith('main-text')) ?? texts[0];
+  const ctx = document.createElement('canvas').getContext('2d');
+
+  return elements.map(el => {
+    if (el.type === 'logo') {
+      const size = el.width ?? 100;
+      return { ...el, ...getCoordinatesFromPosition(result.suggestedLogoPosition, canvas.width, canvas.height, size, size) };
+    }
+    if (el.type !== 'text') return el;
+
+    const styled: DesignElement = {
+      ...el,
+      style: {
+        ...el.style,
+        color: result.textColor,
+        textShadow: result.textShadow === 'none' ? undefined : result.textShadow,
+      },
+    };
+    if (el !== headline || !ctx) return styled;
+
+    const box = layoutText(ctx, styled, canvas.width);
+    return { ...styled, ...getCoordinatesFromPosition(result.suggestedTextPosition, canvas.width, canvas.height, box.width, box.height) };
+  });
+};
@@ -0,0 +1,138 @@
+import { PrintSettings } from '../types';
+import { canvasToBlob, ElementErrorHandler, renderDocument, RenderableDocument } from './renderer';
+import { PDF_POINTS_PER_INCH } from './units';
+
+export interface PdfExportOptions {
+  title?: string;
+  cropMarks?: boolean;
+  jpegQuality?: number;
+  onElementError?: ElementErrorHandler;
+}
+
+// Crop marks start this far outside the bleed so they never print on the artwork
+const CROP_MARK_GAP_PT = 3;
+const CROP_MARK_LENGTH_PT = 18;
+const CROP_MARK_WIDTH_PT = 0.25;
+
+const encoder = new TextEncoder();
+
+// Two decimals are far below printer resolution and keep the content stream short
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+// PDF literal strings are byte strings; keep the title printable ASCII and escape delimiters
+const pdfString = (value: string) =>
+  `(${value.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1')})`;
+
+// --- Writer ---
+
+interface PdfObject {
+  dict: string;
+  stream?: Uint8Array;
+}
+
+// Serializes objects 1..n (in array order) with a valid cross-reference table.
+// Object 1 must be the catalog.
+const writePdf = (objects: PdfObject[], infoId: number): Blob => {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const push = (chunk: Uint8Array | string) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // The binary comment marks the file as containing 8-bit data
+  push('%PDF-1.4\n');
+  push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(length);
+    push(`${i + 1} 0 obj\n`);
+    if (object.stream) {
+      push(`${object.dict.replace(/>>$/, `/Length ${object.stream.length} >>`)}\nstream\n`);
+      push(object.stream);
+      push('\nendstream\n');
+    } else {
+      push(`${object.dict}\n`);
+    }
+    push('endobj\n');
+  });
+
+  const xrefOffset = length;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
+
+// --- Page Content ---
+
+// Eight marks, two per trim corner, drawn in the slug outside the bleed
+const buildCropMarks = (trimX: number, trimY: number, trimWidth: number, trimHeight: number, bleed: number): string => {
+  const start = bleed + CROP_MARK_GAP_PT;
+  const end = start + CROP_MARK_LENGTH_PT;
+  const lines: string[] = [];
+
+  [trimX, trimX + trimWidth].forEach((x, xi) => {
+    [trimY, trimY + trimHeight].forEach((y, yi) => {
+      const dx = xi === 0 ? -1 : 1;
+      const dy = yi === 0 ? -1 : 1;
+      lines.push(`${num(x + dx * start)} ${num(y)} m ${num(x + dx * end)} ${num(y)} l S`);
+      lines.push(`${num(x)} ${num(y + dy * start)} m ${num(x)} ${num(y + dy * end)} l S`);
+    });
+  });
+
+  return `q ${CROP_MARK_WIDTH_PT} w 0 0 0 1 K\n${lines.join('\n')}\nQ`;
+};
+
+// Renders the design (background extended into the bleed) as one embedded JPEG on
+// a page sized to the physical trim plus bleed, with TrimBox/BleedBox and crop marks
+export const exportPdf = async (doc: RenderableDocument, print: PrintSettings, options: PdfExportOptions = {}): Promise<Blob> => {
+  const { title = 'Design', cropMarks = true, jpegQuality = 0.95, onElementError } = options;
+  const { width, height } = doc.dimensions;
+
+  // Canvas pixels are print dots at the target DPI, so the render needs no extra scaling.
+  // A document without a background prints on blank paper, not the editor's gray.
+  const canvas = await renderDocument(doc, { bleed: print.bleed, placeholder: '#ffffff', onElementError });
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', jpegQuality)).arrayBuffer());
+
+  const pt = PDF_POINTS_PER_INCH / print.dpi;
+  const trimWidth = width * pt;
+  const trimHeight = height * pt;
+  const bleed = print.bleed * pt;
+  const slug = cropMarks ? bleed + CROP_MARK_GAP_PT + CROP_MARK_LENGTH_PT + CROP_MARK_GAP_PT : bleed;
+  const pageWidth = trimWidth + slug * 2;
+  const pageHeight = trimHeight + slug * 2;
+
+  const imageX = slug - bleed;
+  const imageY = slug - bleed;
+  const imageWidth = trimWidth + bleed * 2;
+  const imageHeight = trimHeight + bleed * 2;
+
+  const content = [
+    `q ${num(imageWidth)} 0 0 ${num(imageHeight)} ${num(imageX)} ${num(imageY)} cm /Im0 Do Q`,
+    cropMarks ? buildCropMarks(slug, slug, trimWidth, trimHeight, bleed) : '',
+  ].filter(Boolean).join('\n');
+
+  const box = (x: number, y: number, w: number, h: number) => `[${num(x)} ${num(y)} ${num(x + w)} ${num(y + h)}]`;
+
+  return writePdf([
+    { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+    { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+    {
+      dict: `<< /Type /Page /Parent 2 0 R /MediaBox ${box(0, 0, pageWidth, pageHeight)}`
+        + ` /BleedBox ${box(imageX, imageY, imageWidth, imageHeight)}`
+        + ` /TrimBox ${box(slug, slug, trimWidth, trimHeight)}`
+        + ' /Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>',
+    },
+    { dict: '<< >>', stream: encoder.encode(content) },
+    {
+      dict: `<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height}`
+        + ' /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode >>',
+      stream: jpeg,
+    },
+    { dict: `<< /Title ${pdfString(title)} /Creator (CanvasAI Composer) >>` },
+  ], 6);
+};
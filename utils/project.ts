@@ -0,0 +1,149 @@
+import { DesignElement, ProjectDocument, ProjectFile } from '../types';
+import { DEFAULT_BACKGROUND_FRAME } from './background';
+import { hashString } from './helpers';
+import { DEFAULT_PRINT_SETTINGS } from './units';
+
+export const PROJECT_FORMAT = 'canvasai-project';
+export const PROJECT_SCHEMA_VERSION = 5;
+export const PROJECT_FILE_EXTENSION = '.canvasai.json';
+
+const ASSET_PREFIX = 'asset:';
+
+// A document as read from JSON, before it is known to match the current schema
+type RawDocument = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each entry upgrades a document from `version` to `version + 1`.
+// Add one whenever DesignElement or ProjectDocument changes shape.
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  // v2: print setup (units, DPI, bleed, safe area)
+  1: doc => ({ ...doc, print: { ...DEFAULT_PRINT_SETTINGS } }),
+  // v3: uploaded fonts
+  2: doc => ({ ...doc, fonts: [] }),
+  // v4: background adjustments (element adjustments are optional)
+  3: doc => ({ ...doc, backgroundAdjustments: null }),
+  // v5: background framing and color/gradient fills
+  4: doc => ({ ...doc, backgroundFrame: { ...DEFAULT_BACKGROUND_FRAME }, backgroundFill: null }),
+};
+
+const isEmbeddedAsset = (value: string) => value.startsWith('data:');
+
+// --- Asset packing ---
+
+const packValue = async (value: string | null, assets: Record<string, string>): Promise<string | null> => {
+  if (!value || !isEmbeddedAsset(value)) return value;
+  const hash = await hashString(value);
+  assets[hash] = value;
+  return `${ASSET_PREFIX}${hash}`;
+};
+
+const unpackValue = (value: string | null, assets: Record<string, string>): string | null => {
+  if (!value || !value.startsWith(ASSET_PREFIX)) return value;
+  const asset = assets[value.slice(ASSET_PREFIX.length)];
+  if (!asset) throw new Error(`Project is missing embedded asset ${value}`);
+  return asset;
+};
+
+const isImageElement = (el: DesignElement) => el.type === 'logo' || el.type === 'image';
+
+// Replaces embedded images and fonts with content-hash references so identical assets are stored once
+export const packDocument = async (doc: ProjectDocument): Promise<{ document: ProjectDocument; assets: Record<string, string> }> => {
+  const assets: Record<string, string> = {};
+
+  const elements = await Promise.all(doc.elements.map(async el => (
+    isImageElement(el) ? {
+      ...el,
+      content: (await packValue(el.content, assets)) as string,
+      source: (await packValue(el.source ?? null, assets)) ?? undefined,
+    } : el
+  )));
+
+  return {
+    document: {
+      ...doc,
+      elements,
+      background: await packValue(doc.background, assets),
+      logo: await packValue(doc.logo, assets),
+      styleReference: await packValue(doc.styleReference, assets),
+      fonts: await Promise.all(doc.fonts.map(async font => ({ ...font, data: (await packValue(font.data, assets)) as string }))),
+    },
+    assets,
+  };
+};
+
+export const unpackDocument = (doc: ProjectDocument, assets: Record<string, string>): ProjectDocument => ({
+  ...doc,
+  elements: doc.elements.map(el => (
+    isImageElement(el) ? { ...el, content: unpackValue(el.content, assets) as string, source: unpackValue(el.source ?? null, assets) ?? undefined } : el
+  )),
+  background: unpackValue(doc.background, assets),
+  logo: unpackValue(doc.logo, assets),
+  styleReference: unpackValue(doc.styleReference, assets),
+  fonts: doc.fonts.map(font => ({ ...font, data: unpackValue(font.data, assets) as string })),
+});
+
+// --- Serialization ---
+
+export const migrateProjectFile = (raw: unknown): ProjectFile => {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT || typeof raw.version !== 'number') {
+    throw new Error('Not a CanvasAI project file.');
+  }
+  if (raw.version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`This project was saved by a newer version (v${raw.version}). Please update the app.`);
+  }
+  if (!isRecord(raw.assets) || Object.values(raw.assets).some(asset => typeof asset !== 'string')) {
+    throw new Error('Project file has invalid embedded assets.');
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    name: typeof raw.name === 'string' ? raw.name : 'Untitled Design',
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+    document: migrateDocument(raw.document, raw.version),
+    assets: raw.assets as Record<string, string>,
+  };
+};
+
+// Shared by project files and library entries, which store their schema version alongside the document.
+// Every step must start from an object; the result is checked for the fields the editor relies on.
+export const migrateDocument = (raw: unknown, version: number): ProjectDocument => {
+  if (!isRecord(raw)) throw new Error('Project document is missing or invalid.');
+  let doc: RawDocument = raw;
+  for (let v = version; v < PROJECT_SCHEMA_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration available for project version ${v}.`);
+    doc = migrate(doc);
+    if (!isRecord(doc)) throw new Error(`Migrating the project to version ${v + 1} failed.`);
+  }
+  if (!isRecord(doc.dimensions) || !Array.isArray(doc.elements)) {
+    throw new Error('Project document is missing its canvas size or elements.');
+  }
+  return doc as unknown as ProjectDocument;
+};
+
+export const serializeProject = async (doc: ProjectDocument, name: string): Promise<string> => {
+  const { document, assets } = await packDocument(doc);
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    name,
+    savedAt: new Date().toISOString(),
+    document,
+    assets,
+  };
+  return JSON.stringify(file);
+};
+
+export const parseProject = (json: string): { name: string; document: ProjectDocument } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Project file is not valid JSON.');
+  }
+  const file = migrateProjectFile(raw);
+  return { name: file.name, document: unpackDocument(file.document, file.assets) };
+};
@@ -0,0 +1,236 @@
+import { DesignElement } from '../types';
+import { getElementLabel } from './helpers';
+import { ElementErrorHandler, renderDocument, RenderableDocument } from './renderer';
+
+export interface PsdExportOptions {
+  scale?: number;
+  onElementError?: ElementErrorHandler;
+}
+
+interface PsdLayer {
+  name: string;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // RGBA, width * height * 4
+  hidden?: boolean;
+  locked?: boolean;
+}
+
+// Photoshop's "lock all" protection flag (lspf)
+const LOCK_ALL = 0x80000000;
+const LAYER_FLAG_HIDDEN = 0x02;
+
+// --- Binary Writer ---
+
+// Collects big-endian chunks; PSD sections are length-prefixed, so each one is built separately
+const createWriter = () => {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  const push = (bytes: Uint8Array) => {
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const number = (size: number, write: (view: DataView) => void) => {
+    const bytes = new Uint8Array(size);
+    write(new DataView(bytes.buffer));
+    push(bytes);
+  };
+
+  return {
+    u8: (value: number) => number(1, view => view.setUint8(0, value)),
+    u16: (value: number) => number(2, view => view.setUint16(0, value)),
+    i16: (value: number) => number(2, view => view.setInt16(0, value)),
+    u32: (value: number) => number(4, view => view.setUint32(0, value)),
+    i32: (value: number) => number(4, view => view.setInt32(0, value)),
+    ascii: (value: string) => push(new Uint8Array(Array.from(value, char => char.charCodeAt(0) & 0x7f))),
+    bytes: push,
+    // Length-prefixed block whose length field covers only the body
+    section: (body: { chunks: Uint8Array[]; length: number }, padTo = 1) => {
+      const padding = (padTo - (body.length % padTo)) % padTo;
+      number(4, view => view.setUint32(0, body.length + padding));
+      body.chunks.forEach(push);
+      if (padding) push(new Uint8Array(padding));
+    },
+    get chunks() { return chunks; },
+    get length() { return length; },
+  };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+// --- Layer Data ---
+
+// Splits interleaved RGBA into the planar channels PSD stores (alpha first, id -1)
+const toChannels = (pixels: Uint8ClampedArray, count: number): { id: number; data: Uint8Array }[] => {
+  const planes = [new Uint8Array(count), new Uint8Array(count), new Uint8Array(count), new Uint8Array(count)];
+  for (let i = 0; i < count; i++) {
+    planes[0][i] = pixels[i * 4 + 3];
+    planes[1][i] = pixels[i * 4];
+    planes[2][i] = pixels[i * 4 + 1];
+    planes[3][i] = pixels[i * 4 + 2];
+  }
+  return planes.map((data, i) => ({ id: i - 1, data }));
+};
+
+// Pascal string padded so that length byte + text is a multiple of 4
+const writePascalName = (writer: Writer, name: string) => {
+  const ascii = name.replace(/[^\x20-\x7e]/g, '_').slice(0, 255);
+  writer.u8(ascii.length);
+  writer.ascii(ascii);
+  const padding = (4 - ((ascii.length + 1) % 4)) % 4;
+  if (padding) writer.bytes(new Uint8Array(padding));
+};
+
+// Additional layer info block: '8BIM' signature, 4-char key, padded length-prefixed data
+const writeLayerInfo = (writer: Writer, key: string, body: Writer) => {
+  writer.ascii('8BIM');
+  writer.ascii(key);
+  writer.section(body, 4);
+};
+
+const writeLayerRecord = (writer: Writer, layer: PsdLayer, channels: { id: number; data: Uint8Array }[]) => {
+  writer.i32(layer.top);
+  writer.i32(layer.left);
+  writer.i32(layer.top + layer.height);
+  writer.i32(layer.left + layer.width);
+
+  writer.u16(channels.length);
+  channels.forEach(channel => {
+    writer.i16(channel.id);
+    writer.u32(channel.data.length + 2); // Includes the compression marker
+  });
+
+  writer.ascii('8BIM');
+  writer.ascii('norm');
+  writer.u8(255); // Opacity
+  writer.u8(0); // Clipping: base
+  writer.u8(layer.hidden ? LAYER_FLAG_HIDDEN : 0);
+  writer.u8(0); // Filler
+
+  const extra = createWriter();
+  extra.u32(0); // No layer mask
+  extra.u32(0); // No blending ranges
+  writePascalName(extra, layer.name);
+
+  // Full Unicode name; the Pascal name above is only a fallback for older readers
+  const unicodeName = createWriter();
+  // The count is in UTF-16 code units, so characters outside the BMP go out as surrogate pairs
+  unicodeName.u32(layer.name.length);
+  for (let i = 0; i < layer.name.length; i++) unicodeName.u16(layer.name.charCodeAt(i));
+  writeLayerInfo(extra, 'luni', unicodeName);
+
+  if (layer.locked) {
+    const protection = createWriter();
+    protection.u32(LOCK_ALL);
+    writeLayerInfo(extra, 'lspf', protection);
+  }
+
+  writer.section(extra);
+};
+
+// --- Rendering ---
+
+// Smallest box containing any non-transparent pixel, or null for an empty render
+const findOpaqueBounds = (data: ImageData) => {
+  const { width, height } = data;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data.data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const readPixels = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Renders one element on its own and trims it to its visible pixels, which keeps
+// rotated and flipped elements exactly where they sit on the canvas
+const renderElementLayer = async (doc: RenderableDocument, el: DesignElement, scale: number, onElementError?: ElementErrorHandler): Promise<PsdLayer> => {
+  const canvas = await renderDocument(
+    { ...doc, elements: [{ ...el, hidden: false }] },
+    { scale, includeBackground: false, onElementError }
+  );
+  const full = readPixels(canvas);
+  const bounds = findOpaqueBounds(full);
+  const base = { name: getElementLabel(el), hidden: el.hidden, locked: el.locked };
+
+  if (!bounds) return { ...base, top: 0, left: 0, width: 0, height: 0, pixels: new Uint8ClampedArray(0) };
+
+  const cropped = canvas.getContext('2d')!.getImageData(bounds.x, bounds.y, bounds.width, bounds.height);
+  return { ...base, top: bounds.y, left: bounds.x, width: bounds.width, height: bounds.height, pixels: cropped.data };
+};
+
+// Layered Photoshop document: a locked background layer, then one raster layer per element
+// (bottom to top, named after the layer panel), plus a flattened composite for previews
+export const exportPsd = async (doc: RenderableDocument, options: PsdExportOptions = {}): Promise<Blob> => {
+  const { scale = 1, onElementError } = options;
+
+  const layers: PsdLayer[] = [];
+  if (doc.background || doc.backgroundFill) {
+    const background = readPixels(await renderDocument({ ...doc, elements: [] }, { scale }));
+    layers.push({
+      name: 'Background',
+      top: 0,
+      left: 0,
+      width: background.width,
+      height: background.height,
+      pixels: background.data,
+      locked: true,
+    });
+  }
+  for (const el of doc.elements) {
+    try {
+      layers.push(await renderElementLayer(doc, el, scale, onElementError));
+    } catch (error) {
+      console.error(`Skipping element ${el.id} in PSD export:`, error);
+      if (onElementError) onElementError(el, error);
+    }
+  }
+
+  const composite = readPixels(await renderDocument(doc, { scale }));
+  const { width, height } = composite;
+
+  // Layer records first, then every layer's channel data in the same order
+  const layerInfo = createWriter();
+  layerInfo.i16(layers.length);
+  const layerChannels = layers.map(layer => toChannels(layer.pixels, layer.width * layer.height));
+  layers.forEach((layer, i) => writeLayerRecord(layerInfo, layer, layerChannels[i]));
+  layerChannels.forEach(channels => channels.forEach(channel => {
+    layerInfo.u16(0); // Raw
+    layerInfo.bytes(channel.data);
+  }));
+
+  const layerAndMask = createWriter();
+  layerAndMask.section(layerInfo, 2);
+  layerAndMask.u32(0); // No global layer mask
+
+  const psd = createWriter();
+  psd.ascii('8BPS');
+  psd.u16(1); // Version
+  psd.bytes(new Uint8Array(6)); // Reserved
+  psd.u16(3); // Composite channels: RGB
+  psd.u32(height);
+  psd.u32(width);
+  psd.u16(8); // Bits per channel
+  psd.u16(3); // Color mode: RGB
+  psd.u32(0); // Color mode data
+  psd.u32(0); // Image resources
+  psd.section(layerAndMask);
+
+  psd.u16(0); // Raw composite, planar R, G, B
+  toChannels(composite.data, width * height).slice(1).forEach(channel => psd.bytes(channel.data));
+
+  return new Blob(psd.chunks as BlobPart[], { type: 'image/vnd.adobe.photoshop' });
+};
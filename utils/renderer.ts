@@ -0,0 +1,426 @@
+import React from 'react';
+import { BackgroundFill, BackgroundFrame, CanvasDimensions, CustomFont, DesignElement, ImageAdjustments } from '../types';
+import { buildFilter, getFilterPadding, hasAdjustments } from './adjustments';
+import { DEFAULT_BACKGROUND_FRAME, getBackgroundPlacement, paintFill } from './background';
+import { getCropSourceRect, getImageSize, getMaskPath } from './crop';
+import { registerCustomFonts } from './fonts';
+import { rotateVector } from './geometry';
+import { getGradientLine, getShapePath, getShapeSize } from './shapes';
+import { applyTextTransform, getLetterSpacing, getLineHeight, getTextAlign, TextAlign } from './typography';
+
+// Mirrors the editor's text box: `p-2`, `leading-tight` and the app's inherited font/color
+export const TEXT_PADDING = 8;
+export const TEXT_LINE_HEIGHT = 1.25;
+export const DEFAULT_FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+export const DEFAULT_TEXT_COLOR = '#f4f4f5';
+export const DEFAULT_FONT_SIZE = 48;
+export const PLACEHOLDER_BACKGROUND = '#e5e5e5';
+
+export interface RenderableDocument {
+  dimensions: CanvasDimensions;
+  elements: DesignElement[];
+  background: string | null;
+  backgroundAdjustments?: ImageAdjustments | null;
+  backgroundFrame?: BackgroundFrame; // Defaults to a centered cover fit
+  backgroundFill?: BackgroundFill | null;
+  fonts?: CustomFont[]; // Uploaded fonts the text may use; registered before drawing
+}
+
+export interface RenderOptions {
+  scale?: number;
+  includeBackground?: boolean;
+  elementIds?: string[]; // Render only these elements (isolated selection)
+  bleed?: number; // Canvas pixels added on every side; only the background extends into it
+  placeholder?: string; // Fill for a document without a background; defaults to the editor's gray
+  onElementError?: ElementErrorHandler;
+}
+
+// Elements that cannot be drawn (usually images from hosts without CORS headers) are left
+// out of the export and passed here, so the caller can tell the user what is missing
+export type ElementErrorHandler = (el: DesignElement, error: unknown) => void;
+
+export interface TextShadow {
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  color: string;
+}
+
+export interface TextLayout {
+  font: string;
+  lines: string[];
+  lineWidths: number[];
+  lineHeight: number;
+  fontSize: number;
+  letterSpacing: number;
+  align: TextAlign;
+  width: number; // Outer box, including padding
+  height: number;
+}
+
+// --- Image Loading ---
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  let cached = imageCache.get(src);
+  if (!cached) {
+    cached = new Promise((resolve, reject) => {
+      const img = new Image();
+      img.crossOrigin = 'anonymous';
+      img.onload = () => resolve(img);
+      img.onerror = () => {
+        imageCache.delete(src);
+        reject(new Error(`Could not load image ${src.slice(0, 64)}`));
+      };
+      img.src = src;
+    });
+    imageCache.set(src, cached);
+  }
+  return cached;
+};
+
+// --- Text ---
+
+export const parseFontSize = (style?: React.CSSProperties): number => {
+  const value = parseFloat(String(style?.fontSize ?? ''));
+  return Number.isFinite(value) ? value : DEFAULT_FONT_SIZE;
+};
+
+export const buildFont = (style: React.CSSProperties | undefined, fontSize: number): string => {
+  const fontStyle = style?.fontStyle || 'normal';
+  const fontWeight = style?.fontWeight || 'normal';
+  const family = style?.fontFamily || DEFAULT_FONT_FAMILY;
+  return `${fontStyle} ${fontWeight} ${fontSize}px ${family}`;
+};
+
+// Supports the single-shadow form the AI produces, e.g. "2px 2px 4px rgba(0,0,0,0.8)"
+export const parseTextShadow = (value?: string): TextShadow | null => {
+  if (!value || value === 'none') return null;
+  const first = value.split(/,(?![^(]*\))/)[0].trim();
+  const colorMatch = first.match(/(rgba?\([^)]*\)|hsla?\([^)]*\)|#[0-9a-f]{3,8}\b|[a-z]+$|^[a-z]+)/i);
+  const color = colorMatch ? colorMatch[0] : 'rgba(0,0,0,0.5)';
+  const lengths = first.replace(color, '').trim().split(/\s+/).map(v => parseFloat(v)).filter(Number.isFinite);
+  if (lengths.length < 2) return null;
+  return { offsetX: lengths[0], offsetY: lengths[1], blur: lengths[2] || 0, color };
+};
+
+const wrapLine = (ctx: CanvasRenderingContext2D, line: string, maxWidth: number): string[] => {
+  const words = line.split(/(\s+)/);
+  const lines: string[] = [];
+  let current = '';
+  words.forEach(word => {
+    const candidate = current + word;
+    if (current && ctx.measureText(candidate.trimEnd()).width > maxWidth) {
+      lines.push(current.trimEnd());
+      current = word.trimStart();
+    } else {
+      current = candidate;
+    }
+  });
+  lines.push(current.trimEnd());
+  return lines;
+};
+
+// Lays text out the way the editor's absolutely positioned box does: shrink-to-fit up to
+// the canvas edge, or wrapped inside `el.width` when the text has a fixed-width box
+export const layoutText = (ctx: CanvasRenderingContext2D, el: DesignElement, canvasWidth: number): TextLayout => {
+  const fontSize = parseFontSize(el.style);
+  const font = buildFont(el.style, fontSize);
+  const letterSpacing = getLetterSpacing(el.style);
+  ctx.font = font;
+  ctx.letterSpacing = `${letterSpacing}px`;
+
+  const available = Math.max(1, (el.width ?? canvasWidth - el.x) - TEXT_PADDING * 2);
+  const content = applyTextTransform(el.content, el.style?.textTransform);
+  const lines = content.split('\n').flatMap(line => wrapLine(ctx, line, available));
+  const lineWidths = lines.map(line => ctx.measureText(line).width);
+  const contentWidth = el.width !== undefined ? available : Math.min(Math.max(0, ...lineWidths), available);
+  const lineHeight = fontSize * getLineHeight(el.style, TEXT_LINE_HEIGHT);
+
+  return {
+    font,
+    lines,
+    lineWidths,
+    lineHeight,
+    fontSize,
+    letterSpacing,
+    align: getTextAlign(el.style),
+    width: contentWidth + TEXT_PADDING * 2,
+    height: lines.length * lineHeight + TEXT_PADDING * 2,
+  };
+};
+
+// Left edge of each laid-out line, following `text-align` inside the box
+export const getLineStarts = (layout: TextLayout, left: number): number[] => {
+  const inner = layout.width - TEXT_PADDING * 2;
+  return layout.lineWidths.map(lineWidth => {
+    const free = Math.max(0, inner - lineWidth);
+    const offset = layout.align === 'center' ? free / 2 : layout.align === 'right' ? free : 0;
+    return left + TEXT_PADDING + offset;
+  });
+};
+
+// Baseline of each laid-out line. CSS centers the glyph box inside each line box
+// (half-leading above and below), so the canvas and SVG exports do the same.
+export const getLineBaselines = (ctx: CanvasRenderingContext2D, layout: TextLayout, top: number): number[] => {
+  ctx.font = layout.font;
+  return layout.lines.map((line, i) => {
+    const metrics = ctx.measureText(line || ' ');
+    const ascent = metrics.fontBoundingBoxAscent ?? layout.fontSize * 0.8;
+    const descent = metrics.fontBoundingBoxDescent ?? layout.fontSize * 0.2;
+    const lineTop = top + TEXT_PADDING + i * layout.lineHeight;
+    return lineTop + (layout.lineHeight - (ascent + descent)) / 2 + ascent;
+  });
+};
+
+// Makes sure every font the document uses is ready before measuring or drawing
+export const waitForFonts = async (elements: DesignElement[]) => {
+  if (!document.fonts) return;
+  await Promise.all(elements
+    .filter(el => el.type === 'text')
+    .map(el => document.fonts.load(buildFont(el.style, parseFontSize(el.style)), applyTextTransform(el.content, el.style?.textTransform)).catch(() => [])));
+  // Also covers web fonts from index.html that started loading before this call
+  await document.fonts.ready;
+};
+
+// --- Drawing ---
+
+// Places the image in a box at the context origin: fitted, zoomed, offset, then rotated and
+// flipped around its center, matching the editor's background layer
+const drawFramedImage = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, frame: BackgroundFrame, width: number, height: number) => {
+  const placement = getBackgroundPlacement({ width: img.naturalWidth, height: img.naturalHeight }, { width, height }, frame);
+  ctx.save();
+  ctx.translate(placement.cx, placement.cy);
+  if (frame.rotation) ctx.rotate((frame.rotation * Math.PI) / 180);
+  ctx.scale(frame.flipX ? -1 : 1, frame.flipY ? -1 : 1);
+  ctx.drawImage(img, -placement.width / 2, -placement.height / 2, placement.width, placement.height);
+  ctx.restore();
+};
+
+// Rotates around the element's center and flips its content, matching DraggableElement's CSS
+const applyElementTransform = (ctx: CanvasRenderingContext2D, el: DesignElement, width: number, height: number) => {
+  const cx = el.x + width / 2;
+  const cy = el.y + height / 2;
+  ctx.translate(cx, cy);
+  if (el.rotation) ctx.rotate((el.rotation * Math.PI) / 180);
+  ctx.scale(el.flipX ? -1 : 1, el.flipY ? -1 : 1);
+  ctx.translate(-cx, -cy);
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, el: DesignElement, canvasWidth: number, scale: number) => {
+  const layout = layoutText(ctx, el, canvasWidth);
+  applyElementTransform(ctx, el, layout.width, layout.height);
+
+  ctx.font = layout.font;
+  ctx.fillStyle = (el.style?.color as string) || DEFAULT_TEXT_COLOR;
+  ctx.textBaseline = 'alphabetic';
+  ctx.textAlign = 'left';
+
+  // Shadows ignore the context transform, so they are flipped, rotated and scaled by hand
+  // to land where the editor's CSS text-shadow does
+  const shadow = parseTextShadow(el.style?.textShadow as string | undefined);
+  if (shadow) {
+    const offset = rotateVector({
+      x: el.flipX ? -shadow.offsetX : shadow.offsetX,
+      y: el.flipY ? -shadow.offsetY : shadow.offsetY,
+    }, el.rotation || 0);
+    ctx.shadowOffsetX = offset.x * scale;
+    ctx.shadowOffsetY = offset.y * scale;
+    ctx.shadowBlur = shadow.blur * scale;
+    ctx.shadowColor = shadow.color;
+  }
+
+  const baselines = getLineBaselines(ctx, layout, el.y);
+  const starts = getLineStarts(layout, el.x);
+  layout.lines.forEach((line, i) => ctx.fillText(line, starts[i], baselines[i]));
+};
+
+// Bakes adjustments into a new canvas at `scale` device pixels per canvas pixel: the tint is
+// painted over the opaque pixels, then the CSS filters run, the same order as the editor preview.
+// The result is padded by `pad` canvas pixels on every side so blur can spread.
+export const createAdjustedImage = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  adjustments: ImageAdjustments,
+  scale: number = 1
+): { canvas: HTMLCanvasElement; pad: number } => {
+  const tinted = document.createElement('canvas');
+  tinted.width = Math.max(1, Math.round(width * scale));
+  tinted.height = Math.max(1, Math.round(height * scale));
+  const tintCtx = tinted.getContext('2d');
+  if (!tintCtx) throw new Error('Canvas 2D context is not available');
+  tintCtx.drawImage(source, 0, 0, tinted.width, tinted.height);
+  if (adjustments.tintAmount > 0) {
+    tintCtx.globalCompositeOperation = 'source-atop';
+    tintCtx.globalAlpha = adjustments.tintAmount / 100;
+    tintCtx.fillStyle = adjustments.tintColor;
+    tintCtx.fillRect(0, 0, tinted.width, tinted.height);
+  }
+
+  const pad = getFilterPadding(adjustments);
+  const canvas = document.createElement('canvas');
+  canvas.width = tinted.width + Math.round(pad * scale) * 2;
+  canvas.height = tinted.height + Math.round(pad * scale) * 2;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.filter = buildFilter(adjustments, scale);
+  ctx.drawImage(tinted, Math.round(pad * scale), Math.round(pad * scale));
+  return { canvas, pad };
+};
+
+// The cropped part of an image at its natural resolution; the image itself when uncropped
+export const getCroppedImage = (el: DesignElement, img: HTMLImageElement): CanvasImageSource => {
+  if (!el.crop) return img;
+  const source = getCropSourceRect(el, { width: img.naturalWidth, height: img.naturalHeight });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width));
+  canvas.height = Math.max(1, Math.round(source.height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(img, source.x, source.y, source.width, source.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Crop, then adjustments, then the mask: the same order as the editor's CSS
+const drawImageElement = async (ctx: CanvasRenderingContext2D, el: DesignElement, scale: number) => {
+  const img = await loadImage(el.content);
+  const { width, height } = getImageSize(el, { width: img.naturalWidth, height: img.naturalHeight });
+  applyElementTransform(ctx, el, width, height);
+  if (el.mask) {
+    ctx.translate(el.x, el.y);
+    ctx.clip(new Path2D(getMaskPath(el.mask, width, height)));
+    ctx.translate(-el.x, -el.y);
+  }
+  const source = getCroppedImage(el, img);
+  if (hasAdjustments(el.adjustments)) {
+    const { canvas, pad } = createAdjustedImage(source, width, height, el.adjustments, scale);
+    ctx.drawImage(canvas, el.x - pad, el.y - pad, width + pad * 2, height + pad * 2);
+  } else {
+    ctx.drawImage(source, el.x, el.y, width, height);
+  }
+};
+
+// Paints the fill, then the framed image, clipped to the box like the editor's canvas.
+// Adjustments apply to the image layer only, so a blur fades into the fill the same way.
+// Both are framed on the width x height canvas exactly as in the editor and simply continue
+// `bleed` pixels past its edges, so the part inside the trim never changes.
+const drawBackground = async (
+  ctx: CanvasRenderingContext2D,
+  doc: RenderableDocument,
+  width: number, height: number,
+  bleed: number,
+  scale: number
+) => {
+  const frame = doc.backgroundFrame ?? DEFAULT_BACKGROUND_FRAME;
+  const area = { x: -bleed, y: -bleed, width: width + bleed * 2, height: height + bleed * 2 };
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(area.x, area.y, area.width, area.height);
+  ctx.clip();
+  if (doc.backgroundFill) paintFill(ctx, doc.backgroundFill, 0, 0, width, height, area);
+
+  if (doc.background) {
+    const img = await loadImage(doc.background);
+    if (hasAdjustments(doc.backgroundAdjustments)) {
+      const layer = document.createElement('canvas');
+      layer.width = Math.max(1, Math.round(area.width * scale));
+      layer.height = Math.max(1, Math.round(area.height * scale));
+      const layerCtx = layer.getContext('2d');
+      if (!layerCtx) throw new Error('Canvas 2D context is not available');
+      layerCtx.scale(layer.width / area.width, layer.height / area.height);
+      layerCtx.translate(bleed, bleed);
+      drawFramedImage(layerCtx, img, frame, width, height);
+      const { canvas, pad } = createAdjustedImage(layer, area.width, area.height, doc.backgroundAdjustments, scale);
+      ctx.drawImage(canvas, area.x - pad, area.y - pad, area.width + pad * 2, area.height + pad * 2);
+    } else {
+      drawFramedImage(ctx, img, frame, width, height);
+    }
+  }
+  ctx.restore();
+};
+
+const drawShape = (ctx: CanvasRenderingContext2D, el: DesignElement) => {
+  const shape = el.shape;
+  if (!shape) return;
+  const { width, height } = getShapeSize(el);
+  applyElementTransform(ctx, el, width, height);
+  ctx.translate(el.x, el.y);
+  ctx.globalAlpha = shape.opacity ?? 1;
+
+  const path = new Path2D(getShapePath(shape, width, height));
+  if (shape.kind !== 'line' && (shape.gradient || shape.fill !== 'none')) {
+    if (shape.gradient) {
+      const line = getGradientLine(shape.gradient.angle, width, height);
+      const gradient = ctx.createLinearGradient(line.x1, line.y1, line.x2, line.y2);
+      gradient.addColorStop(0, shape.gradient.from);
+      gradient.addColorStop(1, shape.gradient.to);
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = shape.fill;
+    }
+    ctx.fill(path);
+  }
+  if (shape.strokeWidth > 0) {
+    ctx.strokeStyle = shape.stroke;
+    ctx.lineWidth = shape.strokeWidth;
+    ctx.lineJoin = 'round';
+    ctx.stroke(path);
+  }
+};
+
+// Draws the document model straight onto an offscreen canvas, independent of the editor DOM
+export const renderDocument = async (doc: RenderableDocument, options: RenderOptions = {}): Promise<HTMLCanvasElement> => {
+  const { scale = 1, includeBackground = true, elementIds, bleed = 0, placeholder = PLACEHOLDER_BACKGROUND, onElementError } = options;
+  const { width, height } = doc.dimensions;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round((width + bleed * 2) * scale);
+  canvas.height = Math.round((height + bleed * 2) * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.scale(scale, scale);
+  ctx.translate(bleed, bleed);
+
+  if (includeBackground) {
+    if (doc.background || doc.backgroundFill) {
+      await drawBackground(ctx, doc, width, height, bleed, scale);
+    } else {
+      ctx.fillStyle = placeholder;
+      ctx.fillRect(-bleed, -bleed, width + bleed * 2, height + bleed * 2);
+    }
+  }
+
+  const elements = doc.elements.filter(el => !el.hidden && (!elementIds || elementIds.includes(el.id)));
+  if (doc.fonts) await registerCustomFonts(doc.fonts);
+  await waitForFonts(elements);
+  // Start decoding every image up front; drawing still happens in layer order
+  await Promise.all(elements.filter(el => el.type === 'logo' || el.type === 'image').map(el => loadImage(el.content).catch(() => null)));
+
+  for (const el of elements) {
+    ctx.save();
+    try {
+      if (el.type === 'text') {
+        drawText(ctx, el, width, scale);
+      } else if (el.type === 'shape') {
+        drawShape(ctx, el);
+      } else {
+        await drawImageElement(ctx, el, scale);
+      }
+    } catch (error) {
+      console.error(`Skipping element ${el.id} in export:`, error);
+      if (onElementError) onElementError(el, error);
+    } finally {
+      ctx.restore();
+    }
+  }
+
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string = 'image/png', quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))), type, quality);
+  });
+};
@@ -0,0 +1,108 @@
+import { CanvasDimensions, DesignElement, Position, ShapeKind, ShapeProps } from '../types';
+import { toRadians } from './geometry';
+
+export const MIN_SHAPE_SIZE = 4;
+export const DEFAULT_SHAPE_COLOR = '#6366f1';
+
+// Insertable shapes; the rounded rectangle is a rectangle with a corner radius
+export const SHAPE_PRESETS: { id: string; label: string; width: number; height: number; shape: ShapeProps }[] = [
+  { id: 'rectangle', label: 'Rectangle', width: 300, height: 120, shape: { kind: 'rectangle', fill: DEFAULT_SHAPE_COLOR, stroke: '#ffffff', strokeWidth: 0 } },
+  { id: 'rounded', label: 'Rounded Rectangle', width: 300, height: 120, shape: { kind: 'rectangle', fill: DEFAULT_SHAPE_COLOR, stroke: '#ffffff', strokeWidth: 0, cornerRadius: 24 } },
+  { id: 'ellipse', label: 'Ellipse', width: 180, height: 180, shape: { kind: 'ellipse', fill: DEFAULT_SHAPE_COLOR, stroke: '#ffffff', strokeWidth: 0 } },
+  { id: 'line', label: 'Line', width: 300, height: 4, shape: { kind: 'line', fill: 'none', stroke: '#ffffff', strokeWidth: 4 } },
+  { id: 'polygon', label: 'Polygon', width: 180, height: 180, shape: { kind: 'polygon', fill: DEFAULT_SHAPE_COLOR, stroke: '#ffffff', strokeWidth: 0, sides: 6 } },
+  { id: 'star', label: 'Star', width: 180, height: 180, shape: { kind: 'star', fill: '#f59e0b', stroke: '#ffffff', strokeWidth: 0, sides: 5, innerRadius: 0.5 } },
+];
+
+export const SHAPE_LABELS: Record<ShapeKind, string> = {
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  line: 'Line',
+  polygon: 'Polygon',
+  star: 'Star',
+};
+
+export const createShapeElement = (presetId: string, canvas: CanvasDimensions): DesignElement => {
+  const preset = SHAPE_PRESETS.find(p => p.id === presetId) ?? SHAPE_PRESETS[0];
+  return {
+    id: `shape-${Date.now()}`,
+    type: 'shape',
+    content: '',
+    x: Math.round((canvas.width - preset.width) / 2),
+    y: Math.round((canvas.height - preset.height) / 2),
+    width: preset.width,
+    height: preset.height,
+    shape: { ...preset.shape },
+  };
+};
+
+// Lines are as tall as their stroke; everything else has a free height
+export const getShapeSize = (el: DesignElement) => {
+  const width = el.width ?? 100;
+  if (el.shape?.kind === 'line') return { width, height: Math.max(el.shape.strokeWidth, 1) };
+  return { width, height: el.height ?? width };
+};
+
+// --- Geometry ---
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const pointsToPath = (points: Position[]) =>
+  `${points.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)},${round(p.y)}`).join(' ')} Z`;
+
+// Regular polygon or star inscribed in the box, first point straight up
+const getRadialPoints = (shape: ShapeProps, cx: number, cy: number, rx: number, ry: number): Position[] => {
+  const isStar = shape.kind === 'star';
+  const corners = Math.max(3, Math.round(shape.sides ?? 5));
+  const count = isStar ? corners * 2 : corners;
+  const inner = Math.min(Math.max(shape.innerRadius ?? 0.5, 0.05), 1);
+  return Array.from({ length: count }, (_, i) => {
+    const angle = toRadians((360 / count) * i - 90);
+    const r = isStar && i % 2 === 1 ? inner : 1;
+    return { x: cx + Math.cos(angle) * rx * r, y: cy + Math.sin(angle) * ry * r };
+  });
+};
+
+// SVG path data for the shape in a width x height box. Closed shapes are inset by half
+// the stroke so the stroke stays inside the box. The editor, the canvas renderer
+// (via Path2D) and the SVG export all draw from this one path.
+export const getShapePath = (shape: ShapeProps, width: number, height: number): string => {
+  if (shape.kind === 'line') return `M0,${round(height / 2)} L${round(width)},${round(height / 2)}`;
+
+  const inset = shape.strokeWidth / 2;
+  const x = inset;
+  const y = inset;
+  const w = Math.max(width - shape.strokeWidth, 0);
+  const h = Math.max(height - shape.strokeWidth, 0);
+
+  if (shape.kind === 'ellipse') {
+    const rx = w / 2;
+    const ry = h / 2;
+    return `M${round(x)},${round(y + ry)} A${round(rx)},${round(ry)} 0 1 0 ${round(x + w)},${round(y + ry)} A${round(rx)},${round(ry)} 0 1 0 ${round(x)},${round(y + ry)} Z`;
+  }
+
+  if (shape.kind === 'polygon' || shape.kind === 'star') {
+    return pointsToPath(getRadialPoints(shape, x + w / 2, y + h / 2, w / 2, h / 2));
+  }
+
+  const r = Math.min(Math.max(shape.cornerRadius ?? 0, 0), w / 2, h / 2);
+  if (r === 0) return pointsToPath([{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }]);
+  return [
+    `M${round(x + r)},${round(y)}`,
+    `H${round(x + w - r)} A${round(r)},${round(r)} 0 0 1 ${round(x + w)},${round(y + r)}`,
+    `V${round(y + h - r)} A${round(r)},${round(r)} 0 0 1 ${round(x + w - r)},${round(y + h)}`,
+    `H${round(x + r)} A${round(r)},${round(r)} 0 0 1 ${round(x)},${round(y + h - r)}`,
+    `V${round(y + r)} A${round(r)},${round(r)} 0 0 1 ${round(x + r)},${round(y)} Z`,
+  ].join(' ');
+};
+
+// End points of a linear gradient at `angle` that spans the whole box, like CSS linear-gradient
+export const getGradientLine = (angle: number, width: number, height: number) => {
+  const rad = toRadians(angle);
+  const dx = Math.cos(rad);
+  const dy = Math.sin(rad);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const cx = width / 2;
+  const cy = height / 2;
+  return { x1: round(cx - dx * half), y1: round(cy - dy * half), x2: round(cx + dx * half), y2: round(cy + dy * half) };
+};
@@ -0,0 +1,111 @@
+import { useEffect, useRef } from 'react';
+
+export type ShortcutAction =
+  | 'undo'
+  | 'redo'
+  | 'delete'
+  | 'nudge'
+  | 'nudgeLarge'
+  | 'copy'
+  | 'paste'
+  | 'duplicate'
+  | 'group'
+  | 'ungroup'
+  | 'deselect'
+  | 'cycleNext'
+  | 'cyclePrevious'
+  | 'help';
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  // Lowercase key names joined with '+'. `mod` is Cmd on macOS and Ctrl elsewhere.
+  combos: string[];
+  description: string;
+}
+
+// A handler returns false when it had nothing to act on (e.g. Tab with no selection), which
+// leaves the key to the browser for focus navigation, native copy and so on
+export type ShortcutHandlers = Partial<Record<ShortcutAction, (e: KeyboardEvent) => boolean | void>>;
+
+export const NUDGE_STEP = 1;
+export const NUDGE_STEP_LARGE = 10;
+
+// Single source of truth for every editor binding; the help overlay renders this list
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: 'undo', combos: ['mod+z'], description: 'Undo' },
+  { action: 'redo', combos: ['mod+shift+z', 'mod+y'], description: 'Redo' },
+  { action: 'delete', combos: ['delete', 'backspace'], description: 'Delete selection' },
+  { action: 'nudge', combos: ['arrowup', 'arrowdown', 'arrowleft', 'arrowright'], description: `Nudge selection ${NUDGE_STEP}px` },
+  { action: 'nudgeLarge', combos: ['shift+arrowup', 'shift+arrowdown', 'shift+arrowleft', 'shift+arrowright'], description: `Nudge selection ${NUDGE_STEP_LARGE}px` },
+  { action: 'copy', combos: ['mod+c'], description: 'Copy selection' },
+  { action: 'paste', combos: ['mod+v'], description: 'Paste' },
+  { action: 'duplicate', combos: ['mod+d'], description: 'Duplicate selection' },
+  { action: 'group', combos: ['mod+g'], description: 'Group selection' },
+  { action: 'ungroup', combos: ['mod+shift+g'], description: 'Ungroup selection' },
+  { action: 'deselect', combos: ['escape'], description: 'Deselect' },
+  { action: 'cycleNext', combos: ['tab'], description: 'Select next element' },
+  { action: 'cyclePrevious', combos: ['shift+tab'], description: 'Select previous element' },
+  { action: 'help', combos: ['shift+?'], description: 'Show keyboard shortcuts' },
+];
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// True while the user is typing somewhere, so shortcuts don't hijack their keystrokes
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+export const matchesCombo = (e: KeyboardEvent, combo: string): boolean => {
+  const parts = combo.split('+');
+  const key = parts[parts.length - 1];
+  const wantsMod = parts.includes('mod');
+  const wantsShift = parts.includes('shift');
+  const wantsAlt = parts.includes('alt');
+  const hasMod = isMac ? e.metaKey : e.ctrlKey;
+
+  return e.key.toLowerCase() === key
+    && hasMod === wantsMod
+    && e.shiftKey === wantsShift
+    && e.altKey === wantsAlt;
+};
+
+const KEY_LABELS: Record<string, string> = {
+  mod: isMac ? '⌘' : 'Ctrl',
+  shift: isMac ? '⇧' : 'Shift',
+  alt: isMac ? '⌥' : 'Alt',
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+  escape: 'Esc',
+  backspace: '⌫',
+  delete: 'Del',
+  tab: 'Tab',
+};
+
+export const formatCombo = (combo: string): string[] =>
+  combo.split('+').map(part => KEY_LABELS[part] || part.toUpperCase());
+
+// Binds the registry to window keydown. Handlers can change every render without rebinding.
+export const useShortcuts = (handlers: ShortcutHandlers, enabled: boolean = true) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+
+      const shortcut = SHORTCUTS.find(s => s.combos.some(combo => matchesCombo(e, combo)));
+      const handler = shortcut && handlersRef.current[shortcut.action];
+      if (!handler) return;
+
+      if (handler(e) !== false) e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,305 @@
+import { BackgroundFill, CanvasDimensions, DesignElement } from '../types';
+import { hasAdjustments } from './adjustments';
+import { DEFAULT_BACKGROUND_FRAME, getBackgroundPlacement, getRadialRadius } from './background';
+import { getCropSourceRect, getImageSize, getMaskPath } from './crop';
+import {
+  createAdjustedImage,
+  getCroppedImage,
+  getLineBaselines,
+  getLineStarts,
+  layoutText,
+  loadImage,
+  parseTextShadow,
+  waitForFonts,
+  DEFAULT_FONT_FAMILY,
+  DEFAULT_TEXT_COLOR,
+  ElementErrorHandler,
+  RenderableDocument,
+  renderDocument,
+} from './renderer';
+import { customFontFaceCss, registerCustomFonts } from './fonts';
+import { getGradientLine, getShapePath, getShapeSize } from './shapes';
+import { escapeXml } from './helpers';
+
+export interface SvgExportOptions {
+  includeBackground?: boolean;
+  embedFonts?: boolean;
+  onElementError?: ElementErrorHandler;
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Remote images are inlined so the SVG is self-contained; if CORS forbids it we keep the link
+const toEmbeddedHref = async (src: string): Promise<string> => {
+  if (src.startsWith('data:')) return src;
+  try {
+    const response = await fetch(src);
+    if (!response.ok) throw new Error(response.statusText);
+    return await blobToDataUrl(await response.blob());
+  } catch (error) {
+    console.error(`Could not embed ${src}, linking instead:`, error);
+    return src;
+  }
+};
+
+// "'Great Vibes', cursive" -> "Great Vibes"
+export const primaryFontFamily = (fontFamily?: string) =>
+  (fontFamily || '').split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+
+// --- Font Embedding ---
+
+const FONT_FACE_PATTERN = /@font-face\s*{[^}]*}/g;
+
+const fontFaceFamily = (rule: string) => primaryFontFamily(rule.match(/font-family:\s*([^;]+);/)?.[1]);
+
+const readFontFaceRules = async (sheet: CSSStyleSheet): Promise<string[]> => {
+  try {
+    return Array.from(sheet.cssRules)
+      .filter(rule => rule instanceof CSSFontFaceRule)
+      .map(rule => rule.cssText);
+  } catch {
+    // Cross-origin stylesheets (e.g. Google Fonts) can't be read through CSSOM, fetch them instead
+    if (!sheet.href) return [];
+    try {
+      const css = await (await fetch(sheet.href)).text();
+      return css.match(FONT_FACE_PATTERN) || [];
+    } catch {
+      return [];
+    }
+  }
+};
+
+const inlineFontUrls = async (rule: string, baseUrl: string): Promise<string> => {
+  const urls = Array.from(rule.matchAll(/url\((['"]?)([^'")]+)\1\)/g)).map(match => match[2]);
+  let inlined = rule;
+  for (const url of urls) {
+    if (url.startsWith('data:')) continue;
+    const absolute = new URL(url, baseUrl).href;
+    inlined = inlined.split(url).join(await toEmbeddedHref(absolute));
+  }
+  return inlined;
+};
+
+// @font-face rules (with font files inlined) for every family in `families` the page knows about
+export const collectFontFaceCss = async (families: string[]): Promise<string> => {
+  const wanted = new Set(families.map(f => f.toLowerCase()));
+  const rules: string[] = [];
+
+  for (const sheet of Array.from(document.styleSheets)) {
+    const sheetRules = await readFontFaceRules(sheet);
+    for (const rule of sheetRules) {
+      if (wanted.has(fontFaceFamily(rule).toLowerCase())) {
+        rules.push(await inlineFontUrls(rule, sheet.href || document.baseURI));
+      }
+    }
+  }
+  return rules.join('\n');
+};
+
+// --- SVG Building ---
+
+const transformAttr = (el: DesignElement, width: number, height: number) => {
+  if (!el.rotation && !el.flipX && !el.flipY) return '';
+  const cx = el.x + width / 2;
+  const cy = el.y + height / 2;
+  return ` transform="translate(${cx} ${cy}) rotate(${el.rotation || 0}) scale(${el.flipX ? -1 : 1} ${el.flipY ? -1 : 1}) translate(${-cx} ${-cy})"`;
+};
+
+const buildTextElement = (ctx: CanvasRenderingContext2D, el: DesignElement, canvasWidth: number, filterId: string | null) => {
+  const layout = layoutText(ctx, el, canvasWidth);
+  const style = el.style || {};
+
+  const baselines = getLineBaselines(ctx, layout, el.y);
+  const starts = getLineStarts(layout, el.x);
+  const lines = layout.lines
+    .map((line, i) => `<tspan x="${starts[i]}" y="${baselines[i]}">${escapeXml(line)}</tspan>`)
+    .join('');
+
+  const attrs = [
+    `font-family="${escapeXml(String(style.fontFamily || DEFAULT_FONT_FAMILY))}"`,
+    `font-size="${layout.fontSize}"`,
+    style.fontWeight ? `font-weight="${style.fontWeight}"` : '',
+    style.fontStyle ? `font-style="${style.fontStyle}"` : '',
+    layout.letterSpacing ? `letter-spacing="${layout.letterSpacing}"` : '',
+    `fill="${escapeXml(String(style.color || DEFAULT_TEXT_COLOR))}"`,
+    filterId ? `filter="url(#${filterId})"` : '',
+  ].filter(Boolean).join(' ');
+
+  return `<text ${attrs} xml:space="preserve"${transformAttr(el, layout.width, layout.height)}>${lines}</text>`;
+};
+
+// Natural size of an image from a host without CORS headers: its pixels can't be read,
+// but a plain (non-CORS) load still reports the dimensions
+const loadNaturalSize = (src: string): Promise<CanvasDimensions | null> => new Promise(resolve => {
+  const img = new Image();
+  img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+  img.onerror = () => resolve(null);
+  img.src = src;
+});
+
+const buildImageElement = async (el: DesignElement, index: number, defs: string[]) => {
+  // Without pixel access the image is linked rather than embedded, and adjustments are left out
+  const img = await loadImage(el.content).catch(() => null);
+  const natural = img ? { width: img.naturalWidth, height: img.naturalHeight } : await loadNaturalSize(el.content);
+
+  if (!natural) {
+    // The image doesn't load at all here; link it in the element's stored width and let
+    // the viewer fit it from the top-left corner, since its aspect ratio is unknown
+    if (!el.width) throw new Error(`Could not load image ${el.content.slice(0, 64)}`);
+    return `<g${transformAttr(el, el.width, el.width)}><image href="${escapeXml(el.content)}" x="${el.x}" y="${el.y}" width="${el.width}" height="${el.width}" preserveAspectRatio="xMinYMin meet"/></g>`;
+  }
+
+  const { width, height } = getImageSize(el, natural);
+  const source = getCropSourceRect(el, natural);
+
+  let image: string;
+  // Adjustments are baked into a PNG at the source resolution; SVG viewers disagree on CSS filters
+  if (img && hasAdjustments(el.adjustments)) {
+    const { canvas, pad } = createAdjustedImage(getCroppedImage(el, img), width, height, el.adjustments, Math.max(1, source.width / width));
+    image = `<image href="${canvas.toDataURL('image/png')}" x="${el.x - pad}" y="${el.y - pad}" width="${width + pad * 2}" height="${height + pad * 2}" preserveAspectRatio="none"/>`;
+  } else if (el.crop) {
+    // A nested viewport shows only the cropped part and keeps the full asset in the file
+    const href = await toEmbeddedHref(el.content);
+    image = `<svg x="${el.x}" y="${el.y}" width="${width}" height="${height}" viewBox="${source.x} ${source.y} ${source.width} ${source.height}" preserveAspectRatio="none"><image href="${escapeXml(href)}" width="${natural.width}" height="${natural.height}"/></svg>`;
+  } else {
+    const href = await toEmbeddedHref(el.content);
+    image = `<image href="${escapeXml(href)}" x="${el.x}" y="${el.y}" width="${width}" height="${height}" preserveAspectRatio="none"/>`;
+  }
+
+  let clip = '';
+  if (el.mask) {
+    const clipId = `image-mask-${index}`;
+    defs.push(`<clipPath id="${clipId}"><path transform="translate(${el.x} ${el.y})" d="${getMaskPath(el.mask, width, height)}"/></clipPath>`);
+    clip = ` clip-path="url(#${clipId})"`;
+  }
+  return `<g${transformAttr(el, width, height)}${clip}>${image}</g>`;
+};
+
+const gradientStops = (from: string, to: string) =>
+  `<stop offset="0" stop-color="${escapeXml(from)}"/><stop offset="1" stop-color="${escapeXml(to)}"/>`;
+
+const buildFillElement = (fill: BackgroundFill, width: number, height: number, defs: string[]) => {
+  const paint = fill.type === 'solid' ? escapeXml(fill.color) : 'url(#background-fill)';
+  if (fill.type === 'linear') {
+    const line = getGradientLine(fill.angle, width, height);
+    defs.push(`<linearGradient id="background-fill" gradientUnits="userSpaceOnUse" x1="${line.x1}" y1="${line.y1}" x2="${line.x2}" y2="${line.y2}">${gradientStops(fill.from, fill.to)}</linearGradient>`);
+  } else if (fill.type === 'radial') {
+    defs.push(`<radialGradient id="background-fill" gradientUnits="userSpaceOnUse" cx="${width / 2}" cy="${height / 2}" r="${getRadialRadius(width, height)}">${gradientStops(fill.from, fill.to)}</radialGradient>`);
+  }
+  return `<rect x="0" y="0" width="${width}" height="${height}" fill="${paint}"/>`;
+};
+
+const buildBackground = async (doc: RenderableDocument, defs: string[]) => {
+  const { width, height } = doc.dimensions;
+  if (doc.background && hasAdjustments(doc.backgroundAdjustments)) {
+    const img = await loadImage(doc.background);
+    const scale = Math.max(1, Math.min(img.naturalWidth / width, img.naturalHeight / height));
+    const canvas = await renderDocument({ ...doc, elements: [] }, { scale });
+    return `<image href="${canvas.toDataURL('image/png')}" x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="none"/>`;
+  }
+
+  const parts: string[] = [];
+  if (doc.backgroundFill) parts.push(buildFillElement(doc.backgroundFill, width, height, defs));
+  if (doc.background) {
+    const frame = doc.backgroundFrame ?? DEFAULT_BACKGROUND_FRAME;
+    const img = await loadImage(doc.background);
+    const { cx, cy, width: w, height: h } = getBackgroundPlacement({ width: img.naturalWidth, height: img.naturalHeight }, { width, height }, frame);
+    const transform = frame.rotation || frame.flipX || frame.flipY
+      ? ` transform="translate(${cx} ${cy}) rotate(${frame.rotation}) scale(${frame.flipX ? -1 : 1} ${frame.flipY ? -1 : 1}) translate(${-cx} ${-cy})"`
+      : '';
+    const href = await toEmbeddedHref(doc.background);
+    parts.push(`<image href="${escapeXml(href)}" x="${cx - w / 2}" y="${cy - h / 2}" width="${w}" height="${h}" preserveAspectRatio="none"${transform}/>`);
+  }
+  return parts.join('');
+};
+
+// Shapes stay vector paths; the path is drawn in the element's own box and moved into place
+const buildShapeElement = (el: DesignElement, gradientId: string | null) => {
+  const shape = el.shape;
+  if (!shape) return '';
+  const { width, height } = getShapeSize(el);
+  const fill = shape.kind === 'line' ? 'none' : gradientId ? `url(#${gradientId})` : shape.fill;
+
+  const attrs = [
+    `d="${getShapePath(shape, width, height)}"`,
+    `fill="${escapeXml(fill)}"`,
+    shape.strokeWidth > 0 ? `stroke="${escapeXml(shape.stroke)}" stroke-width="${shape.strokeWidth}" stroke-linejoin="round"` : '',
+    shape.opacity !== undefined && shape.opacity < 1 ? `opacity="${shape.opacity}"` : '',
+  ].filter(Boolean).join(' ');
+
+  return `<g${transformAttr(el, width, height)}><path transform="translate(${el.x} ${el.y})" ${attrs}/></g>`;
+};
+
+// Builds an SVG where text stays editable <text>, shapes stay <path>s and raster layers are embedded <image>s
+export const exportSvg = async (doc: RenderableDocument, options: SvgExportOptions = {}): Promise<string> => {
+  const { includeBackground = true, embedFonts = false, onElementError } = options;
+  const { width, height } = doc.dimensions;
+  const elements = doc.elements.filter(el => !el.hidden);
+  if (doc.fonts) await registerCustomFonts(doc.fonts);
+  await waitForFonts(elements);
+
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  const defs: string[] = [];
+  const body: string[] = [];
+
+  if (includeBackground && (doc.background || doc.backgroundFill)) {
+    body.push(await buildBackground(doc, defs));
+  }
+
+  for (const [index, el] of elements.entries()) {
+    try {
+      if (el.type === 'text') {
+        const shadow = parseTextShadow(el.style?.textShadow as string | undefined);
+        let filterId: string | null = null;
+        if (shadow) {
+          filterId = `text-shadow-${index}`;
+          // CSS blur radius is twice the Gaussian standard deviation
+          defs.push(`<filter id="${filterId}" x="-50%" y="-50%" width="200%" height="200%"><feDropShadow dx="${shadow.offsetX}" dy="${shadow.offsetY}" stdDeviation="${shadow.blur / 2}" flood-color="${escapeXml(shadow.color)}"/></filter>`);
+        }
+        body.push(buildTextElement(ctx, el, width, filterId));
+      } else if (el.type === 'shape') {
+        let gradientId: string | null = null;
+        const gradient = el.shape?.gradient;
+        if (gradient && el.shape?.kind !== 'line') {
+          gradientId = `shape-gradient-${index}`;
+          const size = getShapeSize(el);
+          const line = getGradientLine(gradient.angle, size.width, size.height);
+          defs.push(`<linearGradient id="${gradientId}" gradientUnits="userSpaceOnUse" x1="${line.x1}" y1="${line.y1}" x2="${line.x2}" y2="${line.y2}">${gradientStops(gradient.from, gradient.to)}</linearGradient>`);
+        }
+        body.push(buildShapeElement(el, gradientId));
+      } else {
+        body.push(await buildImageElement(el, index, defs));
+      }
+    } catch (error) {
+      console.error(`Skipping element ${el.id} in SVG export:`, error);
+      if (onElementError) onElementError(el, error);
+    }
+  }
+
+  if (embedFonts) {
+    const families = Array.from(new Set(elements
+      .filter(el => el.type === 'text')
+      .map(el => primaryFontFamily(el.style?.fontFamily as string | undefined))
+      .filter(Boolean)));
+    // Uploaded fonts aren't in any stylesheet, so their rules are built from the project
+    const uploaded = (doc.fonts || [])
+      .filter(font => families.some(family => family.toLowerCase() === font.family.toLowerCase()))
+      .map(customFontFaceCss);
+    const css = [await collectFontFaceCss(families), ...uploaded].filter(Boolean).join('\n');
+    if (css) defs.unshift(`<style><![CDATA[${css}]]></style>`);
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    ...body,
+    '</svg>',
+  ].join('\n');
+};
@@ -0,0 +1,124 @@
+import { CanvasDimensions, DesignElement } from '../types';
+import { toFileSlug } from './helpers';
+import { layoutText, TEXT_PADDING } from './renderer';
+
+export type DataRow = Record<string, string>;
+
+export interface CsvData {
+  headers: string[];
+  rows: DataRow[];
+}
+
+// `{{ name }}` inside text content; names may contain letters, digits, spaces, dots, dashes and underscores
+const TOKEN_PATTERN = /\{\{\s*([\w .-]+?)\s*\}\}/g;
+
+// --- CSV ---
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(r => r.some(value => value.trim() !== ''));
+};
+
+export const parseCsv = (text: string): CsvData => {
+  const [headerRecord, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (!headerRecord) throw new Error('The CSV file is empty.');
+
+  const headers = headerRecord.map(h => h.trim());
+  const rows = records.map(record => Object.fromEntries(headers.map((header, i) => [header, record[i] ?? ''])));
+  return { headers, rows };
+};
+
+// --- Placeholders ---
+
+export const getTextVariables = (content: string): string[] =>
+  Array.from(content.matchAll(TOKEN_PATTERN), match => match[1]);
+
+// Every column the design expects: text variables plus image slot names
+export const getTemplateFields = (elements: DesignElement[]): string[] => Array.from(new Set(elements.flatMap(el =>
+  el.type === 'text' ? getTextVariables(el.content) : el.slot ? [el.slot] : []
+)));
+
+// Lookup that tolerates header case and surrounding spaces
+const findValue = (row: DataRow, field: string): string | undefined => {
+  if (field in row) return row[field];
+  const key = Object.keys(row).find(k => k.trim().toLowerCase() === field.toLowerCase());
+  return key === undefined ? undefined : row[key];
+};
+
+// Fills variables and image slots from one row. Unknown variables are left visible
+// and empty image cells keep the template image so mistakes show up in the preview.
+export const mergeRow = (elements: DesignElement[], row: DataRow): DesignElement[] => elements.map(el => {
+  if (el.type === 'text') {
+    const content = el.content.replace(TOKEN_PATTERN, (token, field: string) => findValue(row, field) ?? token);
+    return content === el.content ? el : { ...el, content };
+  }
+  const image = el.slot ? findValue(row, el.slot)?.trim() : undefined;
+  return image ? { ...el, content: image } : el;
+});
+
+// Ids of merged text elements that no longer fit: the text needs a wider or taller box
+// than the template text had (auto-width headlines included), a word is too long for its
+// box, or the box now runs off the right or bottom edge of the canvas
+export const findOverflowingElements = (
+  template: DesignElement[],
+  merged: DesignElement[],
+  canvas: CanvasDimensions
+): string[] => {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return [];
+
+  return merged.filter((el, i) => {
+    const original = template[i];
+    if (el.type !== 'text' || el.content === original.content) return false;
+    const before = layoutText(ctx, original, canvas.width);
+    const after = layoutText(ctx, el, canvas.width);
+    // Words that cannot wrap stick out past the box
+    const width = Math.max(after.width, Math.max(0, ...after.lineWidths) + TEXT_PADDING * 2);
+    return width > before.width + 0.5
+      || after.height > before.height + 0.5
+      || el.x + width > canvas.width
+      || el.y + after.height > canvas.height;
+  }).map(el => el.id);
+};
+
+// File name for a row's output, based on its first non-empty value
+export const rowFileName = (row: DataRow, index: number): string => {
+  const label = Object.values(row).find(value => value.trim() !== '') || '';
+  const slug = toFileSlug(label).slice(0, 40);
+  return `${String(index + 1).padStart(3, '0')}${slug ? `-${slug}` : ''}`;
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+
+export type TextTransform = 'none' | 'uppercase' | 'lowercase' | 'capitalize';
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Families loaded in index.html; the AI picks from the same list
+export const FONT_FAMILIES: { label: string; value: string }[] = [
+  { label: 'Inter', value: 'Inter, sans-serif' },
+  { label: 'Oswald', value: 'Oswald, sans-serif' },
+  { label: 'Playfair Display', value: "'Playfair Display', serif" },
+  { label: 'Great Vibes', value: "'Great Vibes', cursive" },
+  { label: 'Roboto Mono', value: "'Roboto Mono', monospace" },
+  { label: 'System Sans', value: 'ui-sans-serif, system-ui, sans-serif' },
+  { label: 'Georgia', value: 'Georgia, serif' },
+  { label: 'Impact', value: 'Impact, sans-serif' },
+];
+
+export const FONT_WEIGHTS: { label: string; value: string }[] = [
+  { label: 'Light', value: '300' },
+  { label: 'Regular', value: '400' },
+  { label: 'Medium', value: '500' },
+  { label: 'Semibold', value: '600' },
+  { label: 'Bold', value: '700' },
+  { label: 'Black', value: '900' },
+];
+
+export const TEXT_TRANSFORMS: { label: string; value: TextTransform }[] = [
+  { label: 'None', value: 'none' },
+  { label: 'UPPERCASE', value: 'uppercase' },
+  { label: 'lowercase', value: 'lowercase' },
+  { label: 'Capitalize', value: 'capitalize' },
+];
+
+export const MIN_TEXT_BOX_WIDTH = 40;
+
+// Applies CSS `text-transform` to the content, so exports match what the editor shows
+export const applyTextTransform = (content: string, transform?: string): string => {
+  if (transform === 'uppercase') return content.toUpperCase();
+  if (transform === 'lowercase') return content.toLowerCase();
+  if (transform === 'capitalize') return content.replace(/(^|\s)(\S)/g, (_, space: string, char: string) => space + char.toUpperCase());
+  return content;
+};
+
+// `lineHeight` is stored unitless (a multiple of the font size), like `leading-tight`
+export const getLineHeight = (style: React.CSSProperties | undefined, fallback: number): number => {
+  const value = parseFloat(String(style?.lineHeight ?? ''));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// `letterSpacing` is stored in px
+export const getLetterSpacing = (style?: React.CSSProperties): number => {
+  const value = parseFloat(String(style?.letterSpacing ?? ''));
+  return Number.isFinite(value) ? value : 0;
+};
+
+export const getTextAlign = (style?: React.CSSProperties): TextAlign => {
+  const value = style?.textAlign;
+  return value === 'center' || value === 'right' ? value : 'left';
+};
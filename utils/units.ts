@@ -0,0 +1,36 @@
+import { PhysicalUnit, PrintSettings } from '../types';
+
+export const MM_PER_INCH = 25.4;
+export const PDF_POINTS_PER_INCH = 72;
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  unit: 'px',
+  dpi: 300,
+  bleed: 0,
+  safeMargin: 0,
+  showSafeArea: false,
+};
+
+export const UNIT_LABELS: Record<PhysicalUnit, string> = {
+  px: 'px',
+  mm: 'mm',
+  in: 'in',
+};
+
+export const toPixels = (value: number, unit: PhysicalUnit, dpi: number): number => {
+  if (unit === 'in') return value * dpi;
+  if (unit === 'mm') return (value / MM_PER_INCH) * dpi;
+  return value;
+};
+
+export const fromPixels = (px: number, unit: PhysicalUnit, dpi: number): number => {
+  if (unit === 'in') return px / dpi;
+  if (unit === 'mm') return (px / dpi) * MM_PER_INCH;
+  return px;
+};
+
+// Keeps unit inputs readable: whole pixels, 0.1 mm, 0.01 in
+export const roundForUnit = (value: number, unit: PhysicalUnit): number => {
+  const precision = unit === 'in' ? 100 : unit === 'mm' ? 10 : 1;
+  return Math.round(value * precision) / precision;
+};